@@ -0,0 +1,202 @@
+import React, { useState } from 'react';
+import { Shuffle, Play, Save, CheckCircle, XCircle } from 'lucide-react';
+import { SEVERITY_COLORS } from './roadside-data';
+import { DEFAULT_DURATION, SCENARIO_TEMPLATES, formatParamValue, parseParamValue, runChaosBatch } from './scenario-generator';
+
+const EventList = ({ events }) => (
+  <ul className="space-y-1 text-xs font-mono">
+    {events.map((event, idx) => (
+      <li key={idx} className="flex items-center gap-2">
+        <span className="text-slate-500 w-12">{event.time.toFixed(1)}s</span>
+        <span className="text-cyan-400">{event.device}</span>
+        <span className={`px-1.5 rounded ${SEVERITY_COLORS[event.severity]}`}>{event.severity}</span>
+        <span className="text-slate-300">{event.type}{event.value !== undefined ? ` ${event.value}` : ''}</span>
+      </li>
+    ))}
+    {events.length === 0 && <li className="text-slate-500">No events needed: the test fails on the bare site.</li>}
+  </ul>
+);
+
+const ChaosView = ({ devices, links, rules, testCases, onSaveScenario }) => {
+  const [template, setTemplate] = useState('chaos');
+  const [params, setParams] = useState({});
+  const [seed, setSeed] = useState(1);
+  const [count, setCount] = useState(20);
+  const [duration, setDuration] = useState(DEFAULT_DURATION);
+  const [selectedTests, setSelectedTests] = useState(() => new Set(testCases.map(t => t.id)));
+  const [batch, setBatch] = useState(null);
+  const [paramError, setParamError] = useState(null);
+
+  const definition = SCENARIO_TEMPLATES[template];
+  const tests = testCases.filter(t => selectedTests.has(t.id));
+
+  const changeTemplate = (id) => {
+    setTemplate(id);
+    setParams({});
+    setParamError(null);
+  };
+
+  const toggleTest = (id) => setSelectedTests(prev => {
+    const next = new Set(prev);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    return next;
+  });
+
+  const run = () => {
+    const given = Object.fromEntries(Object.keys(params).filter(key => params[key].trim() !== '').map(key => [key, parseParamValue(params[key])]));
+    try {
+      const { skipped, results } = runChaosBatch(tests, { devices, links, rules }, { seed, count, template, params: given, duration });
+      setBatch({ template, seed, skipped, results });
+      setParamError(null);
+    } catch (err) {
+      setParamError(err.message);
+    }
+  };
+
+  const failures = batch ? batch.results.flatMap(r => r.failures.map(f => ({ ...f, seed: r.seed, scenario: r.scenario }))) : [];
+  const inputClass = 'mt-1 w-full px-3 py-2 bg-slate-900 rounded-lg';
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-xl font-bold">Chaos Testing</h2>
+
+      <div className="bg-slate-800/50 rounded-xl p-6 border border-slate-700 space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+          <label>
+            <span className="text-slate-400">Template</span>
+            <select value={template} onChange={(e) => changeTemplate(e.target.value)} className={inputClass}>
+              {Object.entries(SCENARIO_TEMPLATES).map(([id, t]) => <option key={id} value={id}>{t.name}</option>)}
+            </select>
+          </label>
+          <label>
+            <span className="text-slate-400">Seed</span>
+            <div className="flex gap-2">
+              <input type="number" value={seed} onChange={(e) => setSeed(parseInt(e.target.value, 10) || 0)} className={inputClass} />
+              <button
+                onClick={() => setSeed(Math.floor(Math.random() * 1000000))}
+                title="Random seed"
+                className="mt-1 px-3 bg-slate-700 hover:bg-slate-600 rounded-lg"
+              >
+                <Shuffle className="w-4 h-4" />
+              </button>
+            </div>
+          </label>
+          <label>
+            <span className="text-slate-400">Scenarios</span>
+            <input type="number" min="1" max="500" value={count} onChange={(e) => setCount(Math.max(1, parseInt(e.target.value, 10) || 1))} className={inputClass} />
+          </label>
+          <label>
+            <span className="text-slate-400">Duration (s)</span>
+            <input type="number" min="1" value={duration} onChange={(e) => setDuration(Math.max(1, parseFloat(e.target.value) || 1))} className={inputClass} />
+          </label>
+          {Object.keys(definition.params).map(key => (
+            <label key={key}>
+              <span className="text-slate-400">{definition.params[key].label}</span>
+              <input
+                value={params[key] || ''}
+                placeholder={formatParamValue(definition.params[key].default)}
+                onChange={(e) => setParams(prev => ({ ...prev, [key]: e.target.value }))}
+                className={`${inputClass} font-mono`}
+              />
+            </label>
+          ))}
+        </div>
+        <p className="text-xs text-slate-500">
+          Parameters take a value, a range such as 1000..10000, or choices such as TRX|VDC. Scenario n of a batch uses seed + n.
+        </p>
+        {paramError && <p className="text-sm text-red-300">{paramError}</p>}
+
+        <div>
+          <p className="text-sm text-slate-400 mb-2">Assertions from</p>
+          <div className="flex flex-wrap gap-2">
+            {testCases.map(t => (
+              <label key={t.id} className="flex items-center gap-1 text-sm px-2 py-1 bg-slate-900 rounded-lg">
+                <input type="checkbox" checked={selectedTests.has(t.id)} onChange={() => toggleTest(t.id)} />
+                {t.id} {t.name}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <button
+          onClick={run}
+          disabled={tests.length === 0 || devices.length === 0}
+          className="flex items-center gap-2 px-4 py-2 bg-cyan-600 hover:bg-cyan-700 rounded-lg disabled:opacity-50"
+        >
+          <Play className="w-4 h-4" />
+          Generate &amp; Run
+        </button>
+      </div>
+
+      {batch && (
+        <div className="bg-slate-800/50 rounded-xl p-6 border border-slate-700 space-y-4">
+          <div className="flex justify-between items-center">
+            <h3 className="text-lg font-bold">
+              {SCENARIO_TEMPLATES[batch.template].name}, seeds {batch.seed}–{batch.seed + batch.results.length - 1}
+            </h3>
+            <span className={`flex items-center gap-2 text-sm ${failures.length ? 'text-red-400' : 'text-green-400'}`}>
+              {failures.length ? <XCircle className="w-4 h-4" /> : <CheckCircle className="w-4 h-4" />}
+              {failures.length} failures in {batch.results.filter(r => r.failures.length).length} of {batch.results.length} scenarios
+            </span>
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {batch.results.map(r => (
+              <span
+                key={r.seed}
+                title={`Seed ${r.seed}: ${r.scenario.events.length} events, ${r.failures.length} failing tests`}
+                className={`px-2 py-0.5 rounded text-xs font-mono ${r.failures.length ? 'bg-red-900/50 text-red-300' : 'bg-green-900/50 text-green-300'}`}
+              >
+                {r.seed}
+              </span>
+            ))}
+          </div>
+
+          {batch.skipped.length > 0 && (
+            <div className="p-3 bg-yellow-900/30 rounded-lg text-sm text-yellow-300">
+              <p>{batch.skipped.length} tests fail without any faults and were not checked:</p>
+              {batch.skipped.map(s => (
+                <p key={s.test.id} className="text-xs text-slate-400">
+                  {s.test.id} {s.test.name}: {s.failure.assertion ? `${s.failure.assertion}: ` : ''}{s.failure.message}
+                </p>
+              ))}
+            </div>
+          )}
+
+          {failures.map(f => (
+            <div key={`${f.seed}-${f.test.id}`} className="p-4 bg-slate-900/50 rounded-lg space-y-2">
+              <div className="flex justify-between items-start gap-4">
+                <div>
+                  <p className="font-medium">Seed {f.seed} · {f.test.id} {f.test.name}</p>
+                  <p className="text-sm text-red-300">{f.failure.assertion}: {f.failure.message}</p>
+                  <p className="text-xs text-slate-400">
+                    Shrunk from {f.scenario.events.length} to {f.minimal.events.length} events ·
+                    params {Object.entries(f.scenario.generator.params).map(([k, v]) => `${k}=${typeof v === 'number' ? +v.toFixed(3) : v}`).join(', ')}
+                  </p>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <button
+                    onClick={() => onSaveScenario(f.minimal)}
+                    className="flex items-center gap-1 px-3 py-1 bg-cyan-600 hover:bg-cyan-700 rounded-lg text-sm"
+                  >
+                    <Save className="w-4 h-4" />
+                    Save Minimal
+                  </button>
+                  <button
+                    onClick={() => onSaveScenario(f.scenario)}
+                    className="px-3 py-1 bg-slate-700 hover:bg-slate-600 rounded-lg text-sm"
+                  >
+                    Save Original
+                  </button>
+                </div>
+              </div>
+              <EventList events={f.minimal.events} />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChaosView;
@@ -0,0 +1,196 @@
+import React, { useMemo, useState } from 'react';
+import { AlertCircle, CheckCircle, Clock } from 'lucide-react';
+import { DEVICE_TYPES } from './roadside-data';
+import { cameraCollectorPairs, clockSeries, matchTransactions } from './clock-sync';
+import TimeAxis from './time-axis';
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 200;
+const TRANSACTION_COLORS = { matched: '#22c55e', mismatched: '#ef4444', unmatched: '#f59e0b' };
+
+const formatMs = (seconds) => `${(seconds * 1000).toFixed(0)} ms`;
+
+// Offset of every device over the timeline; the focused device shows its tolerance band and violations
+const OffsetChart = ({ series, until, focus, currentTime }) => {
+  const focused = series.find(s => s.device === focus);
+  const range = Math.max(
+    0.001,
+    ...series.flatMap(s => s.points.map(p => Math.abs(p.offset))),
+    focused ? focused.tolerance * 1.2 : 0
+  );
+  const x = (t) => (t / until) * CHART_WIDTH;
+  const y = (offset) => CHART_HEIGHT / 2 - (offset / range) * (CHART_HEIGHT / 2 - 8);
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT + 16}`} className="w-full">
+      {focused && (
+        <>
+          <rect x="0" y={y(focused.tolerance)} width={CHART_WIDTH} height={y(-focused.tolerance) - y(focused.tolerance)} fill="#22c55e" opacity="0.08" />
+          {focused.violations.map((v, idx) => (
+            <rect key={idx} x={x(v.start)} y="0" width={Math.max(x(v.end) - x(v.start), 1)} height={CHART_HEIGHT} fill="#ef4444" opacity="0.12" />
+          ))}
+        </>
+      )}
+      <line x1="0" x2={CHART_WIDTH} y1={y(0)} y2={y(0)} stroke="#475569" strokeDasharray="4 4" />
+      {series.map(s => {
+        const color = DEVICE_TYPES[s.type]?.color || '#94a3b8';
+        return (
+          <polyline
+            key={s.device}
+            points={s.points.map(p => `${x(p.time)},${y(p.offset)}`).join(' ')}
+            fill="none"
+            stroke={color}
+            strokeWidth={s.device === focus ? 2.5 : 1}
+            opacity={!focus || s.device === focus ? 1 : 0.35}
+          />
+        );
+      })}
+      <line x1={x(currentTime)} x2={x(currentTime)} y1="0" y2={CHART_HEIGHT} stroke="#22d3ee" />
+      <text x="2" y="10" fontSize="10" fill="#94a3b8">+{formatMs(range)}</text>
+      <text x="2" y={CHART_HEIGHT - 2} fontSize="10" fill="#94a3b8">−{formatMs(range)}</text>
+      <TimeAxis until={until} y={CHART_HEIGHT + 14} width={CHART_WIDTH} />
+    </svg>
+  );
+};
+
+// One mark per vehicle: colored by match result, raised when the records are misordered
+const TransactionStrip = ({ result, until }) => {
+  const x = (t) => (t / until) * CHART_WIDTH;
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} 44`} className="w-full">
+      {result.transactions.map(t => (
+        <rect key={t.vehicle} x={x(t.time) - 2} y={t.misordered ? 2 : 12} width="4" height={t.misordered ? 26 : 16} fill={TRANSACTION_COLORS[t.status]}>
+          <title>{`Vehicle ${t.vehicle} at ${t.time.toFixed(1)}s: ${t.status}${t.matchedVehicle && t.status === 'mismatched' ? ` with vehicle ${t.matchedVehicle}` : ''}, skew ${formatMs(t.skew)}${t.misordered ? ', misordered' : ''}`}</title>
+        </rect>
+      ))}
+      <TimeAxis until={until} y={42} width={CHART_WIDTH} />
+    </svg>
+  );
+};
+
+const ClockSyncView = ({ scenario, devices, links, timeline, currentTime }) => {
+  const [focus, setFocus] = useState(null);
+  const until = scenario?.duration || 0;
+
+  const series = useMemo(
+    () => clockSeries(timeline, devices, links, until),
+    [timeline, devices, links, until]
+  );
+  const matching = useMemo(
+    () => cameraCollectorPairs(devices, links).map(([vr, vdc]) => matchTransactions(series, vr, vdc, until)),
+    [series, devices, links, until]
+  );
+
+  if (!scenario) {
+    return <p className="text-slate-400">Select a scenario in the Simulator to analyse clock sync.</p>;
+  }
+
+  const outOfSync = series.filter(s => s.violations.length > 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-bold">Time Sync – {scenario.name}</h2>
+        <span className={`flex items-center gap-2 text-sm ${outOfSync.length ? 'text-red-400' : 'text-green-400'}`}>
+          {outOfSync.length ? <AlertCircle className="w-4 h-4" /> : <CheckCircle className="w-4 h-4" />}
+          {outOfSync.length ? `${outOfSync.length} devices exceed their sync tolerance` : 'All devices within tolerance'}
+        </span>
+      </div>
+
+      <div className="bg-slate-800/50 rounded-xl p-6 border border-slate-700 space-y-4">
+        <h3 className="text-lg font-bold flex items-center gap-2">
+          <Clock className="w-5 h-5 text-cyan-400" />
+          Clock Offset from Site Master
+        </h3>
+        <OffsetChart series={series} until={until} focus={focus} currentTime={currentTime} />
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-slate-400 text-left">
+              <th className="py-2">Device</th>
+              <th className="py-2">Time Source</th>
+              <th className="py-2">Tolerance</th>
+              <th className="py-2">Offset at {currentTime.toFixed(1)}s</th>
+              <th className="py-2">Out of Tolerance</th>
+            </tr>
+          </thead>
+          <tbody>
+            {series.map(s => {
+              const offset = s.offsetAt(Math.min(currentTime, until));
+              return (
+                <tr
+                  key={s.device}
+                  onClick={() => setFocus(focus === s.device ? null : s.device)}
+                  className={`border-t border-slate-700 cursor-pointer ${focus === s.device ? 'bg-cyan-600/10' : 'hover:bg-slate-800'}`}
+                >
+                  <td className="py-2 font-mono">
+                    <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ backgroundColor: DEVICE_TYPES[s.type]?.color }} />
+                    {s.device}
+                  </td>
+                  <td className="py-2 text-slate-400">{s.source || 'Site master'}</td>
+                  <td className="py-2 text-slate-400">±{formatMs(s.tolerance)}</td>
+                  <td className={`py-2 font-medium ${Math.abs(offset) > s.tolerance ? 'text-red-400' : ''}`}>{formatMs(offset)}</td>
+                  <td className="py-2 text-slate-400">
+                    {s.violations.length === 0 ? '—' : s.violations.map(v => `${v.start.toFixed(1)}–${v.end.toFixed(1)}s (peak ${formatMs(v.peak)})`).join(', ')}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="bg-slate-800/50 rounded-xl p-6 border border-slate-700 space-y-4">
+        <h3 className="text-lg font-bold">Camera / DSRC Transaction Matching</h3>
+        {matching.length === 0 && <p className="text-sm text-slate-400">No camera (VR) is linked to a collector (VDC).</p>}
+        {matching.map(result => {
+          const problems = result.transactions.filter(t => t.status !== 'matched' || t.misordered);
+          return (
+            <div key={`${result.vr}-${result.vdc}`} className="space-y-3">
+              <div className="flex justify-between text-sm">
+                <span className="font-mono">{result.vr} → {result.vdc}</span>
+                <span className="text-slate-400">
+                  window ±{formatMs(result.window)} · {result.matched} matched · {result.mismatched} mismatched ·{' '}
+                  {result.unmatched} unmatched · {result.misordered} misordered
+                </span>
+              </div>
+              <TransactionStrip result={result} until={until} />
+              {problems.length > 0 && (
+                <div className="max-h-48 overflow-y-auto">
+                  <table className="w-full text-xs font-mono">
+                    <thead>
+                      <tr className="text-slate-400 text-left">
+                        <th className="py-1">Vehicle</th>
+                        <th className="py-1">Passed</th>
+                        <th className="py-1">Frame stamp</th>
+                        <th className="py-1">DSRC stamp</th>
+                        <th className="py-1">Skew</th>
+                        <th className="py-1">Result</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {problems.map(t => (
+                        <tr key={t.vehicle} className="border-t border-slate-700">
+                          <td className="py-1">#{t.vehicle}</td>
+                          <td className="py-1">{t.time.toFixed(1)}s</td>
+                          <td className="py-1">{t.frameStamp.toFixed(3)}s</td>
+                          <td className="py-1">{t.readStamp.toFixed(3)}s</td>
+                          <td className="py-1">{formatMs(t.skew)}</td>
+                          <td className="py-1" style={{ color: TRANSACTION_COLORS[t.status] }}>
+                            {t.status === 'mismatched' ? `paired with #${t.matchedVehicle}` : t.status}
+                            {t.misordered && ' · misordered'}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ClockSyncView;
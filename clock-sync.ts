@@ -0,0 +1,183 @@
+// Clock sync analysis. Every device keeps a clock offset (seconds) from the
+// site master (GPS/PTP). Devices linked directly to a MOXA take their time from
+// it and inherit its offset; the rest sync to the master themselves.
+// TIME_SYNC_DRIFT (value = drift in s/s) makes a device's own clock drift and
+// SYNC_RESTORED resyncs it. Offsets are piecewise linear over the timeline.
+
+import { defaultConfig } from './device-inventory';
+
+export const CLOCK_EVENTS = { drift: 'TIME_SYNC_DRIFT', restored: 'SYNC_RESTORED' };
+
+// Camera frames and DSRC reads are paired when their timestamps are this close (s)
+export const MATCH_WINDOW = 0.2;
+
+// Seconds between simulated vehicles passing the site
+export const VEHICLE_INTERVAL = 2;
+
+// Time source for each device ID: a directly linked MOXA, or null for the site master
+export const timeSources = (devices, links) => {
+  const byId = new Map(devices.map(d => [d.id, d]));
+  return new Map(devices.map(device => {
+    if (device.type === 'MOXA') return [device.id, null];
+    const gateway = links
+      .filter(l => l.type !== 'power' && (l.from === device.id || l.to === device.id))
+      .map(l => byId.get(l.from === device.id ? l.to : l.from))
+      .find(d => d?.type === 'MOXA');
+    return [device.id, gateway ? gateway.id : null];
+  }));
+};
+
+// A device's own clock as segments { start, end, offset (at start), rate }
+const ownClock = (deviceId, timeline, until) => {
+  const segments = [];
+  let start = 0;
+  let offset = 0;
+  let rate = 0;
+  timeline
+    .filter(e => e.device === deviceId && e.time <= until && (e.type === CLOCK_EVENTS.drift || e.type === CLOCK_EVENTS.restored))
+    .forEach(event => {
+      if (event.time > start) {
+        segments.push({ start, end: event.time, offset, rate });
+        offset += rate * (event.time - start);
+        start = event.time;
+      }
+      if (event.type === CLOCK_EVENTS.drift) rate = Number(event.value) || 0;
+      if (event.type === CLOCK_EVENTS.restored) { rate = 0; offset = 0; }
+    });
+  segments.push({ start, end: Math.max(start, until), offset, rate });
+  return segments;
+};
+
+// Offset at t; 'before' gives the value just ahead of a resync at exactly t
+const offsetIn = (segments, t, side = 'after') => {
+  const segment = side === 'before'
+    ? segments.find(s => s.start < t && t <= s.end) || segments[0]
+    : [...segments].reverse().find(s => s.start <= t) || segments[0];
+  return segment.offset + segment.rate * (t - segment.start);
+};
+
+// Intervals where |offset| exceeds the tolerance, between consecutive points
+const violationsOf = (points, tolerance) => {
+  const violations = [];
+  const add = (start, end, peak) => {
+    const previous = violations[violations.length - 1];
+    if (previous && previous.end >= start) {
+      previous.end = Math.max(previous.end, end);
+      previous.peak = Math.max(previous.peak, peak);
+    } else {
+      violations.push({ start, end, peak });
+    }
+  };
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1];
+    const b = points[i];
+    if (b.time === a.time) continue;
+    const slope = (b.offset - a.offset) / (b.time - a.time);
+    const cuts = [a.time, b.time];
+    if (slope !== 0) {
+      [tolerance, -tolerance].forEach(limit => {
+        const t = a.time + (limit - a.offset) / slope;
+        if (t > a.time && t < b.time) cuts.push(t);
+      });
+    }
+    cuts.sort((x, y) => x - y);
+    for (let j = 1; j < cuts.length; j++) {
+      const mid = (cuts[j - 1] + cuts[j]) / 2;
+      if (Math.abs(a.offset + slope * (mid - a.time)) > tolerance) {
+        const peak = Math.max(...[cuts[j - 1], cuts[j]].map(t => Math.abs(a.offset + slope * (t - a.time))));
+        add(cuts[j - 1], cuts[j], peak);
+      }
+    }
+  }
+  return violations;
+};
+
+// Per device: { device, type, source, tolerance (s), points [{ time, offset }], violations [{ start, end, peak }], offsetAt(t) }
+export const clockSeries = (timeline, devices, links, until) => {
+  const sources = timeSources(devices, links);
+  const own = new Map();
+  devices.forEach(d => own.set(d.id, ownClock(d.id, timeline, until)));
+
+  return devices.map(device => {
+    const source = sources.get(device.id);
+    const chains = [own.get(device.id), ...(source ? [own.get(source)] : [])];
+    const offsetAt = (t, side = 'after') => chains.reduce((sum, segments) => sum + offsetIn(segments, t, side), 0);
+
+    const breaks = [...new Set([0, until, ...chains.flatMap(segments => segments.map(s => s.start))])]
+      .filter(t => t <= until)
+      .sort((a, b) => a - b);
+    const points = breaks.flatMap(time => {
+      const before = offsetAt(time, 'before');
+      const after = offsetAt(time);
+      return time > 0 && before !== after ? [{ time, offset: before }, { time, offset: after }] : [{ time, offset: after }];
+    });
+
+    const tolerance = ({ ...defaultConfig(device.type), ...device.config }.syncTolerance ?? 0) / 1000;
+    return { device: device.id, type: device.type, source, tolerance, points, violations: violationsOf(points, tolerance), offsetAt };
+  });
+};
+
+// Vehicle transactions seen by a camera (VR) and the collector (VDC) it feeds.
+// Each record is stamped with its device's clock; frames are paired with the
+// nearest read inside MATCH_WINDOW. A record is misordered when its stamp sorts
+// it before something that really happened earlier.
+export const matchTransactions = (series, vr, vdc, until, { interval = VEHICLE_INTERVAL, window = MATCH_WINDOW } = {}) => {
+  const clockOf = (id) => series.find(s => s.device === id);
+  const vrClock = clockOf(vr);
+  const vdcClock = clockOf(vdc);
+  const vehicles = [];
+  for (let time = interval / 2; time <= until; time += interval) vehicles.push(time);
+
+  const frames = vehicles.map((time, vehicle) => ({ vehicle, time, stamp: time + vrClock.offsetAt(time) }));
+  const reads = vehicles.map((time, vehicle) => ({ vehicle, time, stamp: time + vdcClock.offsetAt(time) }));
+
+  // Records with the same real time (a vehicle's frame and read) are only
+  // compared with records from strictly earlier times, not with each other
+  const misordered = new Set();
+  let latest = -Infinity;
+  vehicles.forEach((_, vehicle) => {
+    const group = [frames[vehicle], reads[vehicle]];
+    group.forEach(record => {
+      if (record.stamp < latest) misordered.add(record.vehicle);
+    });
+    latest = Math.max(latest, ...group.map(record => record.stamp));
+  });
+
+  const transactions = frames.map(frame => {
+    const read = reads[frame.vehicle];
+    const nearest = reads.reduce((best, r) =>
+      (!best || Math.abs(r.stamp - frame.stamp) < Math.abs(best.stamp - frame.stamp) ? r : best), null);
+    const inWindow = nearest && Math.abs(nearest.stamp - frame.stamp) <= window;
+    return {
+      vehicle: frame.vehicle + 1,
+      time: frame.time,
+      frameStamp: frame.stamp,
+      readStamp: read.stamp,
+      skew: read.stamp - frame.stamp,
+      status: !inWindow ? 'unmatched' : nearest.vehicle === frame.vehicle ? 'matched' : 'mismatched',
+      matchedVehicle: inWindow ? nearest.vehicle + 1 : null,
+      misordered: misordered.has(frame.vehicle)
+    };
+  });
+
+  const count = (status) => transactions.filter(t => t.status === status).length;
+  return {
+    vr,
+    vdc,
+    window,
+    transactions,
+    matched: count('matched'),
+    mismatched: count('mismatched'),
+    unmatched: count('unmatched'),
+    misordered: transactions.filter(t => t.misordered).length
+  };
+};
+
+// Camera/collector pairs wired to each other, in either direction
+export const cameraCollectorPairs = (devices, links) => {
+  const typeOf = new Map(devices.map(d => [d.id, d.type]));
+  return links
+    .map(l => (typeOf.get(l.from) === 'VR' && typeOf.get(l.to) === 'VDC' ? [l.from, l.to]
+      : typeOf.get(l.to) === 'VR' && typeOf.get(l.from) === 'VDC' ? [l.to, l.from] : null))
+    .filter(Boolean);
+};
@@ -0,0 +1,151 @@
+// Device emulators model what happens inside a device (queues, buffers, clocks)
+// so consequences such as BUFFER_OVERFLOW follow from scenario events and the
+// device's configured thresholds instead of being authored. An emulator is
+// registered per device type:
+//   { inputs: [eventType], create(device, { config, downstream }) => handle(input) }
+// `handle` is called in time order with each event of an input type on the
+// device, and with signals from other emulators ({ time, type, value, from }).
+// It returns every output still pending from input.time on, replacing what it
+// returned before; an emulator's own output events are inputs again when they
+// fire, which is how it learns that a threshold was crossed. Outputs:
+//   { time, type, severity, value? }              event on the device itself
+//   { time, signal: { device, type, value } }     signal to another emulator
+
+import { DEVICE_TYPES } from './roadside-data';
+import { defaultConfig } from './device-inventory';
+
+// Traffic rate (msg/s) a transceiver forwards to a downstream collector
+export const TRAFFIC_SIGNAL = 'TRAFFIC';
+
+// DSRC transceiver: messages above `throughput` queue up; a full queue switches
+// on rate limiting, which rejects everything above `rateLimit`
+const trxEmulator = {
+  inputs: ['MESSAGE_FLOOD', 'RATE_LIMITING', 'RATE_LIMIT_CLEARED', 'RECOVERY'],
+  create: (device, { config, downstream }) => {
+    const collectors = downstream.filter(d => d.type === 'VDC');
+    let inbound = 0;
+    let queue = 0;
+    let limiting = false;
+    let last = 0;
+
+    return ({ time, type, value }) => {
+      if (!limiting) queue = Math.min(config.queueCapacity, Math.max(0, queue + (inbound - config.throughput) * (time - last)));
+      last = time;
+
+      if (type === 'MESSAGE_FLOOD') inbound = Math.max(0, Number(value) || 0);
+      if (type === 'RATE_LIMITING') { limiting = true; queue = 0; }
+      if (type === 'RATE_LIMIT_CLEARED') limiting = false;
+      if (type === 'RECOVERY') { inbound = 0; queue = 0; limiting = false; }
+
+      const forwarded = Math.min(inbound, limiting ? config.rateLimit : config.throughput);
+      const signals = collectors.map(c => ({ time, signal: { device: c.id, type: TRAFFIC_SIGNAL, value: forwarded } }));
+      if (limiting && inbound <= config.rateLimit) {
+        return [...signals, { time, type: 'RATE_LIMIT_CLEARED', severity: 'LOW' }];
+      }
+      if (!limiting && inbound > config.throughput) {
+        const full = time + (config.queueCapacity - queue) / (inbound - config.throughput);
+        return [...signals, { time: full, type: 'RATE_LIMITING', severity: 'MEDIUM', value: config.rateLimit }];
+      }
+      return signals;
+    };
+  }
+};
+
+// Vehicle data collector: incoming traffic fills a buffer that uploads at
+// `drainRate`; the buffer overflows at `bufferCapacity` and recovers once empty
+const vdcEmulator = {
+  inputs: [TRAFFIC_SIGNAL, 'BUFFER_OVERFLOW', 'RECOVERY'],
+  create: (device, { config }) => {
+    const loads = new Map();
+    let buffer = 0;
+    let overflowing = false;
+    let last = 0;
+    const inbound = () => [...loads.values()].reduce((sum, rate) => sum + rate, 0);
+
+    return ({ time, type, value, from }) => {
+      buffer = Math.min(config.bufferCapacity, Math.max(0, buffer + (inbound() - config.drainRate) * (time - last)));
+      last = time;
+
+      if (type === TRAFFIC_SIGNAL) loads.set(from, Number(value) || 0);
+      if (type === 'BUFFER_OVERFLOW') { overflowing = true; buffer = config.bufferCapacity; }
+      if (type === 'RECOVERY') { overflowing = false; buffer = 0; }
+
+      const net = inbound() - config.drainRate;
+      if (!overflowing && net > 0) {
+        return [{ time: time + (config.bufferCapacity - buffer) / net, type: 'BUFFER_OVERFLOW', severity: 'CRITICAL', value: config.bufferCapacity }];
+      }
+      if (overflowing && net < 0) {
+        return [{ time: time + buffer / -net, type: 'RECOVERY', severity: 'LOW', value: 'buffer drained' }];
+      }
+      return [];
+    };
+  }
+};
+
+// Serial gateway: TIME_SYNC_DRIFT sets how fast the clock drifts (s/s), ahead
+// or behind; a SYNC_ERROR is raised once |offset| passes `syncTolerance`
+const moxaEmulator = {
+  inputs: ['TIME_SYNC_DRIFT', 'SYNC_ERROR', 'SYNC_RESTORED'],
+  create: (device, { config }) => {
+    let drift = 0;
+    let offset = 0;
+    let inError = false;
+    let last = 0;
+
+    return ({ time, type, value }) => {
+      offset += drift * (time - last);
+      last = time;
+
+      if (type === 'TIME_SYNC_DRIFT') drift = Number(value) || 0;
+      if (type === 'SYNC_ERROR') inError = true;
+      if (type === 'SYNC_RESTORED') { drift = 0; offset = 0; inError = false; }
+
+      const tolerance = config.syncTolerance / 1000;
+      if (inError || drift === 0) return [];
+      const limit = drift > 0 ? tolerance : -tolerance;
+      const wait = Math.abs(offset) >= tolerance ? 0 : (limit - offset) / drift;
+      return [{ time: time + wait, type: 'SYNC_ERROR', severity: 'HIGH', value: tolerance }];
+    };
+  }
+};
+
+const DEVICE_EMULATORS = { TRX: trxEmulator, VDC: vdcEmulator, MOXA: moxaEmulator };
+
+export const registerDeviceEmulator = (type, emulator) => {
+  DEVICE_EMULATORS[type] = emulator;
+};
+
+export const getDeviceEmulator = (type) => DEVICE_EMULATORS[type] || null;
+
+// Rule ID and name that emulator-derived events carry in their cause
+export const emulatorRule = (type) => ({ rule: `EMU-${type}`, ruleName: `${DEVICE_TYPES[type]?.name || type} emulator` });
+
+// Devices reached from `start` along links, nearest first
+const downstreamOf = (start, devices, links) => {
+  const seen = new Set([start]);
+  const queue = [start];
+  for (let head = 0; head < queue.length; head++) {
+    links.forEach(l => {
+      if (l.from === queue[head] && !seen.has(l.to)) {
+        seen.add(l.to);
+        queue.push(l.to);
+      }
+    });
+  }
+  return queue.slice(1).map(id => devices.find(d => d.id === id)).filter(Boolean);
+};
+
+// One emulator per device whose type has one, keyed by device ID:
+//   { type, inputs, handle }
+export const createDeviceEmulators = (devices, links = []) => {
+  const emulators = new Map();
+  devices.forEach(device => {
+    const emulator = getDeviceEmulator(device.type);
+    if (!emulator) return;
+    // Sites saved before a threshold existed fall back to its default
+    const config = { ...defaultConfig(device.type), ...device.config };
+    const handle = emulator.create(device, { config, downstream: downstreamOf(device.id, devices, links) });
+    emulators.set(device.id, { type: device.type, inputs: emulator.inputs, handle });
+  });
+  return emulators;
+};
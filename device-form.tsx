@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { Save, X } from 'lucide-react';
+import { DEVICE_TYPES } from './roadside-data';
+import { createDevice, defaultConfig, validateDevice } from './device-inventory';
+import { GROUP_TYPES, siteOf } from './site-hierarchy';
+
+const DeviceForm = ({ device, devices, sites, defaultSite, onSave, onCancel }) => {
+  const [draft, setDraft] = useState(() => device ? { ...device, config: { ...device.config } } : createDevice('VR', devices, defaultSite));
+  const isNew = !device;
+  const errors = validateDevice(draft, devices, device?.id, sites);
+  const errorFor = (field) => errors.find(e => e.field === field)?.message;
+  const typeInfo = DEVICE_TYPES[draft.type];
+
+  const changeType = (type) => {
+    const fresh = createDevice(type, devices);
+    setDraft(prev => ({
+      ...prev, type, id: fresh.id, model: fresh.model, config: defaultConfig(type),
+      ...(GROUP_TYPES.includes(type) && { parent: null, lane: undefined })
+    }));
+  };
+
+  // Gantries and shelters at the draft's site that it can be mounted in
+  const mounts = GROUP_TYPES.includes(draft.type) ? [] : devices.filter(d => GROUP_TYPES.includes(d.type) && siteOf(d) === siteOf(draft));
+  const parent = devices.find(d => d.id === draft.parent);
+
+  const updateConfig = (key, value) => setDraft(prev => ({ ...prev, config: { ...prev.config, [key]: value } }));
+
+  const inputClass = (field) => `mt-1 w-full px-3 py-2 bg-slate-900 rounded-lg ${errorFor(field) ? 'ring-1 ring-red-500' : ''}`;
+
+  return (
+    <div className="bg-slate-800/50 rounded-xl p-6 border border-cyan-500/50 space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-bold">{isNew ? 'Add Device' : `Edit ${device.id}`}</h3>
+        <button onClick={onCancel} className="text-slate-400 hover:text-white">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+        <label>
+          <span className="text-slate-400">Type</span>
+          <select value={draft.type} disabled={!isNew} onChange={(e) => changeType(e.target.value)} className={inputClass('type')}>
+            {Object.entries(DEVICE_TYPES).map(([key, info]) => <option key={key} value={key}>{info.icon} {info.name}</option>)}
+          </select>
+        </label>
+        <label>
+          <span className="text-slate-400">ID</span>
+          <input
+            value={draft.id}
+            disabled={!isNew}
+            onChange={(e) => setDraft({ ...draft, id: e.target.value.trim() })}
+            className={inputClass('id')}
+          />
+        </label>
+        <label>
+          <span className="text-slate-400">Model</span>
+          <select value={draft.model} onChange={(e) => setDraft({ ...draft, model: e.target.value })} className={inputClass('model')}>
+            {!typeInfo.models.includes(draft.model) && <option value={draft.model}>{draft.model}</option>}
+            {typeInfo.models.map(model => <option key={model} value={model}>{model}</option>)}
+          </select>
+        </label>
+        <div className="grid grid-cols-2 gap-2">
+          {['x', 'y'].map(axis => (
+            <label key={axis}>
+              <span className="text-slate-400">{axis.toUpperCase()}</span>
+              <input
+                type="number"
+                value={draft.location[axis]}
+                onChange={(e) => setDraft({ ...draft, location: { ...draft.location, [axis]: parseFloat(e.target.value) } })}
+                className={inputClass('location')}
+              />
+            </label>
+          ))}
+        </div>
+        <label>
+          <span className="text-slate-400">Site</span>
+          <select
+            value={siteOf(draft)}
+            onChange={(e) => setDraft({ ...draft, site: e.target.value, parent: null, lane: undefined })}
+            className={inputClass('site')}
+          >
+            {sites.map(site => <option key={site.id} value={site.id}>{site.name}</option>)}
+          </select>
+        </label>
+        <label>
+          <span className="text-slate-400">Mounted on</span>
+          <select
+            value={draft.parent || ''}
+            disabled={mounts.length === 0}
+            onChange={(e) => setDraft({ ...draft, parent: e.target.value || null, lane: undefined })}
+            className={inputClass('parent')}
+          >
+            <option value="">None</option>
+            {mounts.map(d => <option key={d.id} value={d.id}>{d.id}</option>)}
+          </select>
+        </label>
+        {parent?.type === 'Gantry' && (
+          <label>
+            <span className="text-slate-400">Lane</span>
+            <input
+              type="number"
+              min="1"
+              max={parent.config.lanes}
+              value={draft.lane ?? ''}
+              placeholder="All lanes"
+              onChange={(e) => setDraft({ ...draft, lane: e.target.value === '' ? undefined : parseInt(e.target.value, 10) })}
+              className={inputClass('lane')}
+            />
+          </label>
+        )}
+
+        {Object.keys(typeInfo.config).map(key => {
+          const field = typeInfo.config[key];
+          return (
+            <label key={key}>
+              <span className="text-slate-400">{field.label}</span>
+              {field.kind === 'select' ? (
+                <select
+                  value={draft.config[key]}
+                  onChange={(e) => updateConfig(key, field.options.find(o => String(o) === e.target.value))}
+                  className={inputClass(`config.${key}`)}
+                >
+                  {field.options.map(option => <option key={option} value={option}>{option}</option>)}
+                </select>
+              ) : (
+                <input
+                  type={field.kind === 'number' ? 'number' : 'text'}
+                  value={draft.config[key] ?? ''}
+                  min={field.min}
+                  max={field.max}
+                  onChange={(e) => updateConfig(key, field.kind === 'number' ? parseFloat(e.target.value) : e.target.value)}
+                  className={inputClass(`config.${key}`)}
+                />
+              )}
+            </label>
+          );
+        })}
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="text-sm text-red-300 space-y-1">
+          {errors.map(error => <li key={error.field}>{error.message}</li>)}
+        </ul>
+      )}
+
+      <button
+        onClick={() => onSave(draft, device?.id ?? null)}
+        disabled={errors.length > 0}
+        className="px-4 py-2 bg-cyan-600 hover:bg-cyan-700 rounded-lg flex items-center gap-2 disabled:opacity-50"
+      >
+        <Save className="w-4 h-4" />
+        {isNew ? 'Add Device' : 'Save Changes'}
+      </button>
+    </div>
+  );
+};
+
+export default DeviceForm;
@@ -0,0 +1,91 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { DEVICE_TYPES, SEVERITY_COLORS } from './roadside-data';
+import { statusTimelines } from './kpis';
+
+const RECENT_EVENTS = 8;
+const STATUS_COLORS = { normal: '#22c55e', degraded: '#f59e0b', alarm: '#ef4444' };
+
+const statusBadge = (status) =>
+  status === 'alarm' ? 'bg-red-900/50 text-red-300' :
+  status === 'degraded' ? 'bg-yellow-900/50 text-yellow-300' :
+  'bg-green-900/50 text-green-300';
+
+const DeviceInspector = ({ device, initialStatus, logs, changes, duration, currentTime, onClose }) => {
+  const typeInfo = DEVICE_TYPES[device.type];
+  const recent = logs.filter(log => log.device === device.id).slice(0, RECENT_EVENTS);
+  const [{ segments }] = statusTimelines([{ ...device, status: initialStatus }], changes, duration);
+  const span = Math.max(duration, currentTime, 1);
+
+  return (
+    <div className="bg-slate-800/50 rounded-xl p-6 border border-yellow-400/50 space-y-4">
+      <div className="flex items-start justify-between">
+        <div className="flex items-center gap-3">
+          <div className="text-3xl">{typeInfo.icon}</div>
+          <div>
+            <h3 className="font-bold text-lg">{device.id}</h3>
+            <p className="text-sm text-slate-400">{typeInfo.name} · {device.model}</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className={`px-2 py-1 rounded text-xs font-medium ${statusBadge(device.status)}`}>{device.status}</div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      <div>
+        <h4 className="text-sm font-semibold text-slate-300 mb-2">Status Timeline</h4>
+        <svg viewBox="0 0 600 28" preserveAspectRatio="none" className="w-full h-7 rounded">
+          {segments.map((s, idx) => (
+            <rect key={idx} x={(s.start / span) * 600} y="0" width={Math.max(((s.end - s.start) / span) * 600, 1)} height="20" fill={STATUS_COLORS[s.status] || '#64748b'}>
+              <title>{`${s.status} ${s.start.toFixed(1)}–${s.end.toFixed(1)}s`}</title>
+            </rect>
+          ))}
+          <rect x={(Math.min(currentTime, span) / span) * 600 - 1} y="0" width="2" height="28" fill="#fff" />
+        </svg>
+        <div className="flex justify-between text-xs text-slate-500">
+          <span>0s</span>
+          <span>{span.toFixed(0)}s</span>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-6">
+        <div>
+          <h4 className="text-sm font-semibold text-slate-300 mb-2">Configuration</h4>
+          <dl className="space-y-1 text-sm">
+            <div className="flex justify-between">
+              <dt className="text-slate-400">Location</dt>
+              <dd className="font-mono">{device.location.x}, {device.location.y}</dd>
+            </div>
+            {Object.keys(typeInfo.config).map(key => {
+              const field = typeInfo.config[key];
+              return (
+                <div key={key} className="flex justify-between">
+                  <dt className="text-slate-400">{field.label}</dt>
+                  <dd className="font-mono">{String(device.config?.[key] ?? field.default)}</dd>
+                </div>
+              );
+            })}
+          </dl>
+        </div>
+        <div>
+          <h4 className="text-sm font-semibold text-slate-300 mb-2">Recent Events</h4>
+          {recent.length === 0 && <p className="text-sm text-slate-500">No events yet.</p>}
+          <ul className="space-y-1 text-xs">
+            {recent.map(log => (
+              <li key={log.id} className="flex items-center gap-2">
+                <span className="text-slate-500 w-12">{log.time.toFixed(1)}s</span>
+                <span className={`px-1.5 py-0.5 rounded font-medium ${SEVERITY_COLORS[log.level]}`}>{log.level}</span>
+                <span className="text-slate-300 truncate">{log.message}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DeviceInspector;
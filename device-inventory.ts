@@ -0,0 +1,114 @@
+// Device inventory: per-type configuration, validation and the site
+// configuration file (sites, devices and links).
+
+import { DEVICE_TYPES } from './roadside-data';
+import { DEFAULT_SITE, validatePlacement } from './site-hierarchy';
+import { validateLink } from './topology';
+import { parseVersionedFile } from './versioned-file';
+
+export const SITE_FILE_FORMAT = 'roadside-site';
+// v2 adds sites and each device's site, parent and lane
+export const SITE_FILE_VERSION = 2;
+
+const IP_PATTERN = /^(25[0-5]|2[0-4]\d|1?\d?\d)(\.(25[0-5]|2[0-4]\d|1?\d?\d)){3}$/;
+
+export const defaultConfig = (type) => {
+  const fields = DEVICE_TYPES[type]?.config || {};
+  return Object.fromEntries(Object.keys(fields).map(key => [key, fields[key].default]));
+};
+
+// ID prefix used for new devices of each type, e.g. TRX-02
+const idPrefix = (type) => type.toUpperCase();
+
+export const nextDeviceId = (type, devices) => {
+  let n = devices.filter(d => d.type === type).length;
+  let id;
+  do { id = `${idPrefix(type)}-${String(++n).padStart(2, '0')}`; } while (devices.some(d => d.id === id));
+  return id;
+};
+
+export const createDevice = (type, devices, site = DEFAULT_SITE.id) => ({
+  id: nextDeviceId(type, devices),
+  type,
+  model: DEVICE_TYPES[type].models[0],
+  status: 'normal',
+  location: { x: 80 + (devices.length * 97) % 460, y: 450 },
+  config: defaultConfig(type),
+  site,
+  parent: null
+});
+
+const validateField = (field, value) => {
+  if (value === undefined || value === null || value === '') return 'is required';
+  if (field.kind === 'ip' && !IP_PATTERN.test(String(value))) return 'must be an IPv4 address';
+  if (field.kind === 'number') {
+    if (typeof value !== 'number' || Number.isNaN(value)) return 'must be a number';
+    if (field.min !== undefined && value < field.min) return `must be at least ${field.min}`;
+    if (field.max !== undefined && value > field.max) return `must be at most ${field.max}`;
+  }
+  if (field.kind === 'select' && !field.options.includes(value)) return `must be one of ${field.options.join(', ')}`;
+  return null;
+};
+
+// Returns a list of { field, message }; originalId is the device being edited, if any.
+// With `sites` the device's site must be one of them.
+export const validateDevice = (device, devices, originalId = null, sites = null) => {
+  const errors = [];
+  const typeInfo = DEVICE_TYPES[device.type];
+
+  if (!/^[A-Za-z0-9][A-Za-z0-9_-]*$/.test(device.id || '')) {
+    errors.push({ field: 'id', message: 'ID may only contain letters, digits, "-" and "_"' });
+  } else if (devices.some(d => d.id === device.id && d.id !== originalId)) {
+    errors.push({ field: 'id', message: `ID "${device.id}" is already in use` });
+  }
+  if (!typeInfo) {
+    errors.push({ field: 'type', message: `Unknown device type "${device.type}"` });
+    return errors;
+  }
+  if (!typeInfo.models.includes(device.model)) {
+    errors.push({ field: 'model', message: `Unknown ${device.type} model "${device.model}"` });
+  }
+  if (!device.location || !Number.isFinite(device.location.x) || !Number.isFinite(device.location.y)) {
+    errors.push({ field: 'location', message: 'Location needs numeric x and y' });
+  }
+  Object.keys(typeInfo.config).forEach(key => {
+    const field = typeInfo.config[key];
+    const problem = validateField(field, device.config?.[key]);
+    if (problem) errors.push({ field: `config.${key}`, message: `${field.label} ${problem}` });
+  });
+  errors.push(...validatePlacement(device, devices, sites));
+  return errors;
+};
+
+export const serializeSiteConfig = ({ sites, devices, links }) => JSON.stringify({
+  format: SITE_FILE_FORMAT,
+  version: SITE_FILE_VERSION,
+  sites,
+  // Playback status is not part of the site configuration
+  devices: devices.map(({ status, ...device }) => device),
+  links
+}, null, 2);
+
+// Throws when the file is not a site configuration or a device or link fails validation
+export const parseSiteConfig = (text) => {
+  const data = parseVersionedFile(text, SITE_FILE_FORMAT, SITE_FILE_VERSION, 'devices', 'site configuration file');
+  // Version 1 files describe a single site
+  const sites = Array.isArray(data.sites) && data.sites.length > 0 ? data.sites : [DEFAULT_SITE];
+  const devices = data.devices.map(d => ({
+    ...d,
+    status: 'normal',
+    config: { ...defaultConfig(d.type), ...d.config },
+    site: d.site || sites[0].id,
+    parent: d.parent || null
+  }));
+  devices.forEach((device, idx) => {
+    const errors = validateDevice(device, devices.filter((_, i) => i !== idx), null, sites);
+    if (errors.length > 0) throw new Error(`${device.id || `Device ${idx + 1}`}: ${errors[0].message}`);
+  });
+  const links = Array.isArray(data.links) ? data.links : [];
+  links.forEach((link, idx) => {
+    const errors = validateLink(link, devices, links.filter((_, i) => i !== idx));
+    if (errors.length > 0) throw new Error(`${link.id || `Link ${idx + 1}`}: ${errors[0]}`);
+  });
+  return { sites, devices, links };
+};
@@ -0,0 +1,11 @@
+// Browser download of generated text, e.g. an exported file or report
+
+export const downloadText = (name, text, mime) => {
+  const url = URL.createObjectURL(new Blob([text], { type: mime }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = name;
+  a.click();
+  // Revoked on the next tick so the click has started the download
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,176 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Search, Link2, X } from 'lucide-react';
+import { DEVICE_TYPES, SEVERITY_COLORS } from './roadside-data';
+import { DEFAULT_CORRELATION_WINDOW, EMPTY_LOG_FILTER, correlateLogs, filterLogs, isFilterActive, logEventTypes } from './event-log';
+
+// Rows have a fixed height so only the visible slice of the list is rendered
+const ROW_HEIGHT = 60;
+const VIEWPORT_HEIGHT = 384;
+const OVERSCAN = 8;
+
+const EventLogView = ({ logs, devices, onCorrelate }) => {
+  const [filter, setFilter] = useState(EMPTY_LOG_FILTER);
+  const [selectedId, setSelectedId] = useState(null);
+  const [correlationWindow, setCorrelationWindow] = useState(DEFAULT_CORRELATION_WINDOW);
+  const [onlyRelated, setOnlyRelated] = useState(false);
+  const [scrollTop, setScrollTop] = useState(0);
+
+  const eventTypes = useMemo(() => logEventTypes(logs), [logs]);
+  const filtered = useMemo(() => filterLogs(logs, filter, devices), [logs, filter, devices]);
+
+  const selected = selectedId === null ? null : logs.find(log => log.id === selectedId) || null;
+  const correlation = useMemo(
+    () => (selected ? correlateLogs(logs, selected, correlationWindow) : null),
+    [logs, selected, correlationWindow]
+  );
+
+  useEffect(() => {
+    onCorrelate(correlation ? correlation.devices : null);
+  }, [correlation]);
+
+  const rows = correlation && onlyRelated
+    ? filtered.filter(log => log.id === selected.id || correlation.entries.has(log.id))
+    : filtered;
+
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(rows.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+
+  const update = (changes) => setFilter(prev => ({ ...prev, ...changes }));
+  const toggleSeverity = (severity) => update({
+    severities: filter.severities.includes(severity)
+      ? filter.severities.filter(s => s !== severity)
+      : [...filter.severities, severity]
+  });
+  const clearSelection = () => {
+    setSelectedId(null);
+    setOnlyRelated(false);
+  };
+
+  const inputClass = 'px-2 py-1 bg-slate-900 rounded-lg text-sm';
+
+  return (
+    <div className="bg-slate-800/50 rounded-xl p-6 border border-slate-700 space-y-3">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-bold">Event Log</h3>
+        <span className="text-sm text-slate-400">
+          {isFilterActive(filter) ? `${filtered.length} of ${logs.length}` : logs.length} entries
+        </span>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="flex items-center gap-2 px-2 py-1 bg-slate-900 rounded-lg flex-1 min-w-48">
+          <Search className="w-4 h-4 text-slate-400" />
+          <input
+            value={filter.text}
+            onChange={(e) => update({ text: e.target.value })}
+            placeholder="Search messages"
+            className="bg-transparent text-sm flex-1 outline-none"
+          />
+        </label>
+        <select value={filter.device} onChange={(e) => update({ device: e.target.value })} className={inputClass}>
+          <option value="">All devices</option>
+          {devices.map(d => <option key={d.id} value={d.id}>{d.id}</option>)}
+        </select>
+        <select value={filter.deviceType} onChange={(e) => update({ deviceType: e.target.value })} className={inputClass}>
+          <option value="">All types</option>
+          {Object.keys(DEVICE_TYPES).map(type => <option key={type} value={type}>{type}</option>)}
+        </select>
+        <select value={filter.type} onChange={(e) => update({ type: e.target.value })} className={inputClass}>
+          <option value="">All events</option>
+          {eventTypes.map(type => <option key={type} value={type}>{type}</option>)}
+        </select>
+        <input type="number" min="0" value={filter.from} onChange={(e) => update({ from: e.target.value })} placeholder="From s" className={`${inputClass} w-20`} />
+        <input type="number" min="0" value={filter.to} onChange={(e) => update({ to: e.target.value })} placeholder="To s" className={`${inputClass} w-20`} />
+        {Object.keys(SEVERITY_COLORS).map(severity => (
+          <button
+            key={severity}
+            onClick={() => toggleSeverity(severity)}
+            className={`px-2 py-0.5 rounded text-xs font-medium ${SEVERITY_COLORS[severity]} ${
+              filter.severities.length === 0 || filter.severities.includes(severity) ? '' : 'opacity-30'
+            }`}
+          >
+            {severity}
+          </button>
+        ))}
+        {isFilterActive(filter) && (
+          <button onClick={() => setFilter(EMPTY_LOG_FILTER)} className="text-sm text-slate-400 hover:text-white">
+            Clear
+          </button>
+        )}
+      </div>
+
+      {/* Correlation */}
+      {selected && (
+        <div className="flex flex-wrap items-center gap-3 p-2 rounded-lg bg-cyan-600/10 border border-cyan-500/40 text-sm">
+          <Link2 className="w-4 h-4 text-cyan-400" />
+          <span>
+            {selected.device} {selected.type} at {selected.time.toFixed(1)}s: {correlation.entries.size} related events on{' '}
+            {correlation.devices.size - 1} other devices within ±
+          </span>
+          <input
+            type="number"
+            min="0"
+            step="0.5"
+            value={correlationWindow}
+            onChange={(e) => setCorrelationWindow(Math.max(0, parseFloat(e.target.value) || 0))}
+            className={`${inputClass} w-16`}
+          />
+          <span>s</span>
+          <label className="flex items-center gap-1 text-slate-300">
+            <input type="checkbox" checked={onlyRelated} onChange={(e) => setOnlyRelated(e.target.checked)} />
+            Only related
+          </label>
+          <button onClick={clearSelection} className="ml-auto text-slate-400 hover:text-white">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      <div
+        className="overflow-y-auto"
+        style={{ height: VIEWPORT_HEIGHT }}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      >
+        <div style={{ height: rows.length * ROW_HEIGHT, position: 'relative' }}>
+          {rows.slice(first, last).map((log, idx) => {
+            const isSelected = log.id === selectedId;
+            const isRelated = correlation?.entries.has(log.id);
+            return (
+              <div
+                key={log.id}
+                onClick={() => (isSelected ? clearSelection() : setSelectedId(log.id))}
+                style={{ position: 'absolute', top: (first + idx) * ROW_HEIGHT, left: 0, right: 0, height: ROW_HEIGHT - 8 }}
+                className={`flex items-start gap-3 px-3 py-2 rounded-lg text-sm cursor-pointer overflow-hidden ${
+                  isSelected ? 'bg-cyan-600/30 ring-1 ring-cyan-500'
+                    : isRelated ? 'bg-amber-500/20 ring-1 ring-amber-500/60'
+                    : 'bg-slate-900/50 hover:bg-slate-900'
+                }`}
+              >
+                <span className="text-slate-500">{log.time.toFixed(1)}s</span>
+                <span className="font-mono text-cyan-400">{log.device}</span>
+                <span className={`px-2 py-0.5 rounded text-xs font-medium ${SEVERITY_COLORS[log.level]}`}>
+                  {log.level}
+                </span>
+                {log.manual && (
+                  <span className="px-2 py-0.5 rounded text-xs font-medium bg-orange-600/30 text-orange-300">MANUAL</span>
+                )}
+                <span className="flex-1 min-w-0 text-slate-300">
+                  <span className="block truncate">{log.message}</span>
+                  {log.cause && (
+                    <span className="block truncate text-xs text-slate-500">
+                      {log.cause.rule} {log.cause.ruleName} · from {log.cause.source.device} {log.cause.source.type} at {log.cause.source.time.toFixed(1)}s
+                      {log.cause.depth > 1 && ` · root ${log.cause.root.device} ${log.cause.root.type}`}
+                    </span>
+                  )}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EventLogView;
@@ -0,0 +1,54 @@
+// Event Log queries over log entries { id, time, device, type, level, message, cause? }:
+// filtering, full-text search and time-window correlation. Everything is a
+// linear pass, which stays well under a frame for tens of thousands of entries.
+
+export const EMPTY_LOG_FILTER = { device: '', deviceType: '', severities: [], type: '', from: '', to: '', text: '' };
+
+// Seconds either side of the selected entry that count as related by default
+export const DEFAULT_CORRELATION_WINDOW = 5;
+
+// Lower-cased search text, built once per entry
+const searchText = new WeakMap();
+const textOf = (log) => {
+  let text = searchText.get(log);
+  if (text === undefined) {
+    text = `${log.device} ${log.type} ${log.message} ${log.cause ? `${log.cause.rule} ${log.cause.ruleName}` : ''}`.toLowerCase();
+    searchText.set(log, text);
+  }
+  return text;
+};
+
+const toNumber = (value) => (value === '' || value === null || value === undefined ? null : Number(value));
+
+export const isFilterActive = (filter) =>
+  Object.keys(EMPTY_LOG_FILTER).some(key => (Array.isArray(filter[key]) ? filter[key].length > 0 : filter[key] !== ''));
+
+// Every search term must appear in the device, event type, message or cause
+export const filterLogs = (logs, filter, devices) => {
+  if (!isFilterActive(filter)) return logs;
+  const typeOf = new Map(devices.map(d => [d.id, d.type]));
+  const terms = filter.text.toLowerCase().split(/\s+/).filter(Boolean);
+  const from = toNumber(filter.from);
+  const to = toNumber(filter.to);
+  return logs.filter(log =>
+    (!filter.device || log.device === filter.device) &&
+    (!filter.deviceType || typeOf.get(log.device) === filter.deviceType) &&
+    (filter.severities.length === 0 || filter.severities.includes(log.level)) &&
+    (!filter.type || log.type === filter.type) &&
+    (from === null || log.time >= from) &&
+    (to === null || log.time <= to) &&
+    (terms.length === 0 || terms.every(term => textOf(log).includes(term))));
+};
+
+// Distinct event types, for the filter menu
+export const logEventTypes = (logs) => [...new Set(logs.map(log => log.type))].sort();
+
+// Entries on other devices within `window` seconds of the selected one, and the devices involved
+export const correlateLogs = (logs, selected, window = DEFAULT_CORRELATION_WINDOW) => {
+  const related = logs.filter(log =>
+    log.device !== selected.device && Math.abs(log.time - selected.time) <= window);
+  return {
+    entries: new Set(related.map(log => log.id)),
+    devices: new Set([selected.device, ...related.map(log => log.device)])
+  };
+};
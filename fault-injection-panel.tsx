@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { Zap, Save } from 'lucide-react';
+import { FAULT_KINDS, createFaultEvent, faultTargets, manualEvents } from './fault-injection';
+
+const FaultInjectionPanel = ({ scenario, devices, links, currentTime, onInject, onSaveAsScenario }) => {
+  const [kindId, setKindId] = useState('kill');
+  const [targetId, setTargetId] = useState('');
+  const [value, setValue] = useState('');
+  const [error, setError] = useState(null);
+
+  const kind = FAULT_KINDS[kindId];
+  const targets = faultTargets(kindId, { devices, links });
+  const target = targets.some(t => t.id === targetId) ? targetId : targets[0]?.id || '';
+  const injected = manualEvents(scenario);
+  const hasValue = kind.target === 'device' && typeof kind.value === 'number';
+
+  const changeKind = (id) => {
+    setKindId(id);
+    setValue('');
+    setError(null);
+  };
+
+  const inject = () => {
+    try {
+      const event = createFaultEvent(kindId, target, currentTime, { devices, links }, hasValue && value !== '' ? Number(value) : undefined);
+      onInject(event);
+      setError(null);
+    } catch (err) {
+      setError(err.message);
+    }
+  };
+
+  const selectClass = 'w-full px-3 py-2 bg-slate-900 rounded-lg text-sm';
+
+  return (
+    <div className="p-4 rounded-lg border border-slate-700 bg-slate-800/50 space-y-2">
+      <h3 className="font-bold flex items-center gap-2">
+        <Zap className="w-4 h-4 text-orange-400" />
+        Inject Fault
+      </h3>
+      <select value={kindId} onChange={(e) => changeKind(e.target.value)} className={selectClass}>
+        {Object.entries(FAULT_KINDS).map(([id, k]) => <option key={id} value={id}>{k.label}</option>)}
+      </select>
+      <select value={target} onChange={(e) => setTargetId(e.target.value)} className={selectClass}>
+        {targets.length === 0 && <option value="">No matching {kind.target}s</option>}
+        {targets.map(t => (
+          <option key={t.id} value={t.id}>{kind.target === 'link' ? `${t.id} ${t.from} → ${t.to}` : t.id}</option>
+        ))}
+      </select>
+      {hasValue && (
+        <label className="flex items-center gap-2 text-sm text-slate-400">
+          <input
+            type="number"
+            value={value}
+            placeholder={String(kind.value)}
+            onChange={(e) => setValue(e.target.value)}
+            className="flex-1 px-3 py-2 bg-slate-900 rounded-lg text-slate-100"
+          />
+          {kind.unit}
+        </label>
+      )}
+      <button
+        onClick={inject}
+        disabled={!target}
+        className="w-full px-3 py-2 bg-orange-600 hover:bg-orange-700 rounded-lg text-sm disabled:opacity-50"
+      >
+        Inject at {currentTime.toFixed(1)}s
+      </button>
+      {error && <p className="text-sm text-red-300">{error}</p>}
+
+      {injected.length > 0 && (
+        <>
+          <ul className="max-h-32 overflow-y-auto text-xs font-mono text-orange-300">
+            {injected.map((event, idx) => (
+              <li key={idx}>{event.time.toFixed(1)}s {event.device} {event.type}{event.value !== undefined ? ` ${event.value}` : ''}</li>
+            ))}
+          </ul>
+          {onSaveAsScenario && (
+            <button
+              onClick={onSaveAsScenario}
+              className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-sm"
+            >
+              <Save className="w-4 h-4" />
+              Save as Scenario
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default FaultInjectionPanel;
@@ -0,0 +1,64 @@
+// Ad-hoc faults injected while a scenario plays. A fault becomes an ordinary
+// scenario event marked `manual: true`, so playback, rules, emulators and run
+// records handle it like an authored event while still showing its origin.
+
+import { LINK_EVENTS } from './topology';
+
+// target: what the fault is aimed at; deviceTypes limits device faults to those types
+export const FAULT_KINDS = {
+  kill: { label: 'Kill device', target: 'device', type: 'DEVICE_FAILURE', severity: 'CRITICAL', value: 'manual kill' },
+  restore: { label: 'Restore device', target: 'device', type: 'RECOVERY', severity: 'LOW', value: 'manual restore' },
+  drop: { label: 'Drop link', target: 'link', type: LINK_EVENTS.down, severity: 'HIGH' },
+  reconnect: { label: 'Restore link', target: 'link', type: LINK_EVENTS.up, severity: 'LOW' },
+  spike: { label: 'Spike message rate', target: 'device', deviceTypes: ['TRX'], type: 'MESSAGE_FLOOD', severity: 'HIGH', value: 2000, unit: 'msg/s' },
+  drift: { label: 'Add clock drift', target: 'device', deviceTypes: ['MOXA'], type: 'TIME_SYNC_DRIFT', severity: 'MEDIUM', value: 0.05, unit: 's/s' }
+};
+
+// Devices or links a fault kind can be aimed at
+export const faultTargets = (kindId, { devices, links }) => {
+  const kind = FAULT_KINDS[kindId];
+  if (!kind) return [];
+  if (kind.target === 'link') return links;
+  return devices.filter(d => !kind.deviceTypes || kind.deviceTypes.includes(d.type));
+};
+
+// Throws when the kind is unknown or the target does not fit it
+export const createFaultEvent = (kindId, targetId, time, site, value = undefined) => {
+  const kind = FAULT_KINDS[kindId];
+  if (!kind) throw new Error(`Unknown fault "${kindId}"; expected one of ${Object.keys(FAULT_KINDS).join(', ')}`);
+  const target = faultTargets(kindId, site).find(t => t.id === targetId);
+  if (!target) {
+    throw new Error(kind.target === 'link'
+      ? `Link "${targetId}" is not in the site`
+      : `"${targetId}" is not a device this fault applies to${kind.deviceTypes ? ` (${kind.deviceTypes.join(', ')})` : ''}`);
+  }
+  const payload = kind.target === 'link' ? targetId : value ?? kind.value;
+  return {
+    time: Math.round(time * 10) / 10,
+    // Link events are logged against the link's source device
+    device: kind.target === 'link' ? target.from : targetId,
+    type: kind.type,
+    ...(payload !== undefined && { value: payload }),
+    severity: kind.severity,
+    manual: true
+  };
+};
+
+// The scenario with the event added in time order, after any event at the same time
+export const injectFault = (scenario, event) => {
+  const events = [...scenario.events];
+  const at = events.findIndex(e => e.time > event.time);
+  events.splice(at === -1 ? events.length : at, 0, event);
+  return { ...scenario, events };
+};
+
+export const manualEvents = (scenario) => (scenario?.events || []).filter(e => e.manual);
+
+// "<time>:<device or link>:<fault>[=value]", e.g. "45:TRX-01:spike=5000"
+export const parseFaultSpec = (spec, site) => {
+  const match = /^([\d.]+):([^:]+):(\w+)(?:=(.+))?$/.exec(spec.trim());
+  if (!match) throw new Error(`Fault "${spec}" should look like <time>:<device or link>:<fault>[=value]`);
+  const [, time, target, kind, raw] = match;
+  const value = raw === undefined ? undefined : Number.isNaN(Number(raw)) ? raw : Number(raw);
+  return createFaultEvent(kind, target, Number(time), site, value);
+};
@@ -0,0 +1,159 @@
+// Fault propagation. Declarative rules derive secondary events from scenario
+// events, following the site wiring:
+//   {
+//     id, name,
+//     when: { device?: 'MOXA-*', deviceType?, type?, severity? },
+//     then: { target: 'self' | 'downstream' | 'upstream' | '<device pattern>', deviceType?, via?: [linkType],
+//             delay, type, severity, status?, value? }
+//   }
+// Derived events carry the rule, the event that triggered it and the root scenario event.
+// Device emulators run in the same pass, so rule and emulator output can drive each other.
+
+import { createDeviceEmulators, emulatorRule } from './device-emulators';
+import { parseVersionedFile } from './versioned-file';
+
+const MAX_RULE_DEPTH = 5;
+
+export const RULES_FILE_FORMAT = 'roadside-rules';
+export const RULES_FILE_VERSION = 1;
+
+const patternToRegExp = (pattern) =>
+  new RegExp(`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+
+export const matchesPattern = (id, pattern) => !pattern || patternToRegExp(pattern).test(id);
+
+const ruleMatches = (when, event, device) =>
+  matchesPattern(event.device, when.device) &&
+  (!when.deviceType || device?.type === when.deviceType) &&
+  (!when.type || event.type === when.type) &&
+  (!when.severity || event.severity === when.severity);
+
+// Devices reachable from `start` following links in one direction
+const reachable = (start, links, direction, via) => {
+  const usable = links.filter(l => !via || via.includes(l.type));
+  const seen = new Set([start]);
+  const queue = [start];
+  while (queue.length > 0) {
+    const current = queue.shift();
+    usable.forEach(l => {
+      const next = direction === 'downstream'
+        ? (l.from === current ? l.to : null)
+        : (l.to === current ? l.from : null);
+      if (next && !seen.has(next)) {
+        seen.add(next);
+        queue.push(next);
+      }
+    });
+  }
+  seen.delete(start);
+  return [...seen];
+};
+
+const resolveTargets = (then, event, devices, links) => {
+  let ids;
+  if (!then.target || then.target === 'self') ids = [event.device];
+  else if (then.target === 'downstream' || then.target === 'upstream') ids = reachable(event.device, links, then.target, then.via);
+  else ids = devices.filter(d => matchesPattern(d.id, then.target)).map(d => d.id);
+  return devices.filter(d => ids.includes(d.id) && (!then.deviceType || d.type === then.deviceType));
+};
+
+const describeEvent = (event) => ({ time: event.time, device: event.device, type: event.type });
+
+// Returns all scenario and derived events in playback order. Events sharing a
+// timestamp keep their authored order, with derived events after their source.
+export const expandEvents = (events, { devices, links = [], rules = [] }) => {
+  const byId = new Map(devices.map(d => [d.id, d]));
+  const queue = events.map((event, seq) => ({ event, seq, emulated: null, signal: false }));
+  let nextSeq = queue.length;
+  const fired = new Set();
+  const result = [];
+  let head = 0;
+
+  // Derived events always land at or after the event being processed
+  const enqueue = (item) => {
+    let lo = head;
+    let hi = queue.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      const other = queue[mid];
+      if (other.event.time < item.event.time || (other.event.time === item.event.time && other.seq < item.seq)) lo = mid + 1;
+      else hi = mid;
+    }
+    queue.splice(lo, 0, item);
+  };
+
+  // Each call supersedes the emulator's earlier pending output; stale items are skipped by version
+  const emulators = createDeviceEmulators(devices, links);
+  const versions = new Map();
+  const runEmulator = (deviceId, input, origin) => {
+    const emulator = emulators.get(deviceId);
+    if (!emulator || !emulator.inputs.includes(input.type)) return;
+    const version = (versions.get(deviceId) || 0) + 1;
+    versions.set(deviceId, version);
+    emulator.handle(input).forEach(output => {
+      const event = output.signal
+        ? { time: output.time, device: output.signal.device, type: output.signal.type, value: output.signal.value, from: deviceId }
+        : {
+          time: output.time,
+          device: deviceId,
+          type: output.type,
+          ...(output.value !== undefined && { value: output.value }),
+          severity: output.severity,
+          cause: { ...emulatorRule(emulator.type), source: origin.source, root: origin.root, depth: origin.depth + 1 }
+        };
+      enqueue({ event, seq: nextSeq++, emulated: { device: deviceId, version, origin }, signal: !!output.signal });
+    });
+  };
+
+  queue.sort((a, b) => a.event.time - b.event.time || a.seq - b.seq);
+
+  while (head < queue.length) {
+    const { event, seq, emulated, signal } = queue[head++];
+    if (emulated && versions.get(emulated.device) !== emulated.version) continue;
+    if (signal) {
+      runEmulator(event.device, event, emulated.origin);
+      continue;
+    }
+    result.push(event);
+
+    const depth = event.cause ? event.cause.depth : 0;
+    if (depth >= MAX_RULE_DEPTH) continue;
+    const root = event.cause ? event.cause.root : { ...describeEvent(event), seq };
+
+    rules.forEach(rule => {
+      if (!ruleMatches(rule.when, event, byId.get(event.device))) return;
+      resolveTargets(rule.then, event, devices, links).forEach(target => {
+        // A rule fires at most once per target for each root event, which also breaks cycles
+        const key = `${rule.id}|${target.id}|${root.seq}`;
+        if (fired.has(key)) return;
+        fired.add(key);
+
+        const value = rule.then.value ?? event.value;
+        const derived = {
+          time: event.time + (rule.then.delay || 0),
+          device: target.id,
+          type: rule.then.type || event.type,
+          ...(value !== undefined && { value }),
+          severity: rule.then.severity || event.severity,
+          ...(rule.then.status && { status: rule.then.status }),
+          cause: { rule: rule.id, ruleName: rule.name, source: describeEvent(event), root, depth: depth + 1 }
+        };
+        enqueue({ event: derived, seq: nextSeq++ });
+      });
+    });
+
+    runEmulator(event.device, event, { source: describeEvent(event), root, depth });
+  }
+
+  return result;
+};
+
+export const serializeRules = (rules) => JSON.stringify({
+  format: RULES_FILE_FORMAT,
+  version: RULES_FILE_VERSION,
+  rules
+}, null, 2);
+
+// Throws on files that are not rules files or come from a newer version
+export const parseRulesFile = (text) =>
+  parseVersionedFile(text, RULES_FILE_FORMAT, RULES_FILE_VERSION, 'rules', 'rules file').rules;
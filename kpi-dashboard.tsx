@@ -0,0 +1,263 @@
+import React, { useState } from 'react';
+import { Activity, AlertCircle, CheckCircle, Clock } from 'lucide-react';
+import { computeKpis, formatPercent, formatSeconds, siteKpis } from './kpis';
+import TimeAxis from './time-axis';
+
+const STATUS_FILL = { normal: '#22c55e', degraded: '#f59e0b', alarm: '#ef4444' };
+const CHART_WIDTH = 600;
+
+const StatusTimelineChart = ({ kpis }) => {
+  const x = (t) => (t / kpis.until) * CHART_WIDTH;
+  const rowHeight = 22;
+  return (
+    <div className="flex gap-4">
+      <div className="text-xs font-mono text-cyan-400 space-y-0" style={{ lineHeight: `${rowHeight}px` }}>
+        {kpis.timelines.map(t => <div key={t.device}>{t.device}</div>)}
+      </div>
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${kpis.timelines.length * rowHeight + 16}`} className="flex-1">
+        {kpis.timelines.map((timeline, row) => timeline.segments.map((segment, idx) => (
+          <rect
+            key={`${timeline.device}-${idx}`}
+            x={x(segment.start)}
+            y={row * rowHeight + 3}
+            width={Math.max(x(segment.end) - x(segment.start), 1)}
+            height={rowHeight - 6}
+            fill={STATUS_FILL[segment.status]}
+          >
+            <title>{`${timeline.device} ${segment.status} ${segment.start.toFixed(1)}s–${segment.end.toFixed(1)}s`}</title>
+          </rect>
+        )))}
+        <TimeAxis until={kpis.until} y={kpis.timelines.length * rowHeight + 14} width={CHART_WIDTH} />
+      </svg>
+      <div className="text-xs text-slate-400" style={{ lineHeight: `${rowHeight}px` }}>
+        {kpis.deviceAvailability.map(a => <div key={a.device}>{formatPercent(a.availability)}</div>)}
+      </div>
+    </div>
+  );
+};
+
+const AlarmChart = ({ kpis }) => {
+  const height = 120;
+  const max = Math.max(1, ...kpis.alarmSeries.map(p => p.count));
+  const x = (t) => (t / kpis.until) * CHART_WIDTH;
+  const y = (count) => height - (count / max) * (height - 10);
+  const points = kpis.alarmSeries.flatMap((p, idx) => {
+    const next = kpis.alarmSeries[idx + 1];
+    const end = next ? next.time : kpis.until;
+    return [`${x(p.time)},${y(p.count)}`, `${x(end)},${y(p.count)}`];
+  });
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${height + 16}`} className="w-full">
+      <polyline points={points.join(' ')} fill="none" stroke="#ef4444" strokeWidth="2" />
+      <text x="2" y="10" fontSize="10" fill="#94a3b8">{max} alarms</text>
+      <TimeAxis until={kpis.until} y={height + 14} width={CHART_WIDTH} />
+    </svg>
+  );
+};
+
+const RecoveryChart = ({ kpis }) => {
+  const rowHeight = 22;
+  const rows = [
+    ...kpis.recoveries.map(e => ({ ...e, resolved: true })),
+    ...kpis.unresolved.map(e => ({ ...e, end: kpis.until, resolved: false }))
+  ];
+  const x = (t) => (t / kpis.until) * CHART_WIDTH;
+  if (rows.length === 0) return <p className="text-sm text-slate-400">No fault episodes in this run.</p>;
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${rows.length * rowHeight + 16}`} className="w-full">
+      {rows.map((row, idx) => (
+        <g key={idx}>
+          <rect
+            x={x(row.start)}
+            y={idx * rowHeight + 3}
+            width={Math.max(x(row.end) - x(row.start), 2)}
+            height={rowHeight - 6}
+            fill={row.resolved ? '#f59e0b' : '#ef4444'}
+            opacity="0.8"
+          />
+          <text x={x(row.start) + 4} y={idx * rowHeight + 15} fontSize="10" fill="#0f172a">
+            {row.device} {row.resolved ? `${(row.end - row.start).toFixed(1)}s` : 'unresolved'}
+          </text>
+        </g>
+      ))}
+      <TimeAxis until={kpis.until} y={rows.length * rowHeight + 14} width={CHART_WIDTH} />
+    </svg>
+  );
+};
+
+const TestResultsChart = ({ testResults }) => {
+  const suites = [...new Set(testResults.map(r => r.suite))];
+  if (suites.length === 0) return <p className="text-sm text-slate-400">No test results in this run.</p>;
+  return (
+    <div className="space-y-3">
+      {suites.map(suite => {
+        const results = testResults.filter(r => r.suite === suite);
+        const passed = results.filter(r => r.status === 'passed').length;
+        return (
+          <div key={suite}>
+            <div className="flex justify-between text-sm mb-1">
+              <span>{suite}</span>
+              <span className="text-slate-400">{passed}/{results.length} passed</span>
+            </div>
+            <div className="h-2 bg-slate-700 rounded-full overflow-hidden flex">
+              <div className="h-full bg-green-500" style={{ width: `${(passed / results.length) * 100}%` }} />
+              <div className="h-full bg-red-500" style={{ width: `${((results.length - passed) / results.length) * 100}%` }} />
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+// Cards, the per-site table and the run comparison all show these
+const KPI_ROWS = [
+  { key: 'passRate', label: 'Test Pass Rate', format: formatPercent, icon: CheckCircle, color: 'text-green-400' },
+  { key: 'availability', label: 'Availability', format: formatPercent, icon: Activity, color: 'text-cyan-400' },
+  { key: 'mttr', label: 'Mean Time to Recover', format: formatSeconds, icon: Clock, color: 'text-yellow-400' },
+  { key: 'activeAlarms', label: 'Active Alarms', format: (v) => String(v), icon: AlertCircle, color: 'text-red-400' }
+];
+
+const KpiDashboard = ({ run, until, runs, loadRun }) => {
+  const [drilldown, setDrilldown] = useState(null);
+  const [compareIds, setCompareIds] = useState([]);
+  const [compared, setCompared] = useState([]);
+  const [compareError, setCompareError] = useState(null);
+
+  const kpis = computeKpis(run, until);
+  const hasTimeline = kpis.until > 0;
+  const sites = siteKpis(run, until);
+
+  const toggleCompare = (id) => {
+    setCompareIds(prev => (prev.includes(id) ? prev.filter(i => i !== id) : [...prev, id]));
+  };
+
+  const compareRuns = async () => {
+    try {
+      const loaded = await Promise.all(compareIds.map(loadRun));
+      setCompared(loaded.filter(Boolean).map(r => ({ run: r, kpis: computeKpis(r, r.scenario?.duration || 0) })));
+      setCompareError(null);
+    } catch (err) {
+      setCompareError(err.message);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* KPI Cards */}
+      <div className="grid grid-cols-4 gap-4">
+        {KPI_ROWS.map(kpi => (
+          <button
+            key={kpi.key}
+            onClick={() => setDrilldown(drilldown === kpi.key ? null : kpi.key)}
+            className={`text-left bg-slate-800/50 rounded-xl p-6 border transition-all ${
+              drilldown === kpi.key ? 'border-cyan-500' : 'border-slate-700 hover:border-slate-600'
+            }`}
+          >
+            <div className="flex items-center gap-3 mb-2">
+              <kpi.icon className={`w-8 h-8 ${kpi.color}`} />
+              <div>
+                <p className="text-sm text-slate-400">{kpi.label}</p>
+                <p className="text-2xl font-bold">{kpi.format(kpis[kpi.key])}</p>
+              </div>
+            </div>
+          </button>
+        ))}
+      </div>
+
+      {/* Drill-down */}
+      {drilldown && (
+        <div className="bg-slate-800/50 rounded-xl p-6 border border-slate-700">
+          <h3 className="text-lg font-bold mb-4">{KPI_ROWS.find(row => row.key === drilldown).label}</h3>
+          {drilldown === 'passRate' && <TestResultsChart testResults={run.testResults || []} />}
+          {drilldown !== 'passRate' && !hasTimeline && (
+            <p className="text-sm text-slate-400">No scenario timeline in this run yet.</p>
+          )}
+          {drilldown === 'availability' && hasTimeline && <StatusTimelineChart kpis={kpis} />}
+          {drilldown === 'mttr' && hasTimeline && <RecoveryChart kpis={kpis} />}
+          {drilldown === 'activeAlarms' && hasTimeline && <AlarmChart kpis={kpis} />}
+        </div>
+      )}
+
+      {/* Per-site KPIs */}
+      {sites.length > 1 && (
+        <div className="bg-slate-800/50 rounded-xl p-6 border border-slate-700">
+          <h3 className="text-lg font-bold mb-4">By Site</h3>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-slate-400 text-left">
+                <th className="py-2">Site</th>
+                <th className="py-2">Devices</th>
+                {KPI_ROWS.filter(row => row.key !== 'passRate').map(row => <th key={row.key} className="py-2">{row.label}</th>)}
+                <th className="py-2">Unresolved</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sites.map(site => (
+                <tr key={site.site.id} className="border-t border-slate-700">
+                  <td className="py-2">{site.site.name} <span className="text-xs text-slate-500">{site.site.id}</span></td>
+                  <td className="py-2">{site.deviceCount}</td>
+                  {KPI_ROWS.filter(row => row.key !== 'passRate').map(row => (
+                    <td key={row.key} className={`py-2 font-medium ${row.key === 'activeAlarms' && site.activeAlarms > 0 ? 'text-red-400' : ''}`}>
+                      {row.format(site[row.key])}
+                    </td>
+                  ))}
+                  <td className="py-2">{site.unresolved.length}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Run Comparison */}
+      {runs.length > 0 && (
+        <div className="bg-slate-800/50 rounded-xl p-6 border border-slate-700 space-y-4">
+          <div className="flex justify-between items-center">
+            <h3 className="text-lg font-bold">Compare Runs</h3>
+            <button
+              onClick={compareRuns}
+              disabled={compareIds.length === 0}
+              className="px-3 py-1 bg-cyan-600 hover:bg-cyan-700 rounded-lg text-sm disabled:opacity-50"
+            >
+              Compare {compareIds.length || ''}
+            </button>
+          </div>
+          <div className="flex flex-wrap gap-2 text-sm">
+            {runs.map(summary => (
+              <label key={summary.id} className="flex items-center gap-2 px-3 py-1 bg-slate-900/50 rounded-lg cursor-pointer">
+                <input type="checkbox" checked={compareIds.includes(summary.id)} onChange={() => toggleCompare(summary.id)} />
+                {summary.kind === 'test' ? 'Test run' : summary.scenario?.name} · {new Date(summary.startedAt).toLocaleString()}
+              </label>
+            ))}
+          </div>
+          {compareError && <p className="text-sm text-red-300">{compareError}</p>}
+          {compared.length > 0 && (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-slate-400 text-left">
+                  <th className="py-2">KPI</th>
+                  <th className="py-2">Current</th>
+                  {compared.map(({ run: r }) => <th key={r.id} className="py-2">{r.id}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {KPI_ROWS.map(row => (
+                  <tr key={row.key} className="border-t border-slate-700">
+                    <td className="py-2 text-slate-400">{row.label}</td>
+                    <td className="py-2 font-medium">{row.format(kpis[row.key])}</td>
+                    {compared.map(({ run: r, kpis: other }) => (
+                      <td key={r.id} className="py-2 font-medium">{row.format(other[row.key])}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default KpiDashboard;
@@ -0,0 +1,115 @@
+// KPIs computed from a run: the live session or a saved run record. Time-based
+// KPIs cover the scenario timeline from 0 to `until`.
+
+import { DEFAULT_SITE, siteOf } from './site-hierarchy';
+
+export const RECOVERY_EVENT_TYPES = ['RECOVERY', 'SYNC_RESTORED'];
+
+const STATUSES = ['normal', 'degraded', 'alarm'];
+
+// Status segments per device: [{ status, start, end }]
+export const statusTimelines = (devices, changes, until) =>
+  devices.map(device => {
+    const own = changes.filter(c => c.device === device.id && c.time <= until);
+    const segments = [];
+    let status = own.length ? own[0].from : device.status;
+    let start = 0;
+    own.forEach(change => {
+      if (change.time > start) segments.push({ status, start, end: change.time });
+      status = change.to;
+      start = change.time;
+    });
+    if (until > start) segments.push({ status, start, end: until });
+    return { device: device.id, segments };
+  });
+
+// Fault episodes run from the first non-LOW event on a device to its RECOVERY
+export const recoveryEpisodes = (logs, until) => {
+  const open = new Map();
+  const episodes = [];
+  logs
+    .filter(log => log.time <= until)
+    .sort((a, b) => a.time - b.time || a.id - b.id)
+    .forEach(log => {
+      if (RECOVERY_EVENT_TYPES.includes(log.type)) {
+        if (open.has(log.device)) {
+          episodes.push({ device: log.device, start: open.get(log.device), end: log.time });
+          open.delete(log.device);
+        }
+      } else if (log.level !== 'LOW' && !open.has(log.device)) {
+        open.set(log.device, log.time);
+      }
+    });
+  return {
+    episodes,
+    unresolved: [...open.entries()].map(([device, start]) => ({ device, start }))
+  };
+};
+
+// Number of devices in alarm after each status change: [{ time, count }]
+export const alarmSeries = (devices, changes, until) => {
+  const statuses = new Map(devices.map(d => {
+    const first = changes.find(c => c.device === d.id);
+    return [d.id, first ? first.from : d.status];
+  }));
+  const count = () => [...statuses.values()].filter(s => s === 'alarm').length;
+  const series = [{ time: 0, count: count() }];
+  changes.filter(c => c.time <= until).forEach(change => {
+    statuses.set(change.device, change.to);
+    series.push({ time: change.time, count: count() });
+  });
+  return series;
+};
+
+const mean = (values) => (values.length ? values.reduce((a, b) => a + b, 0) / values.length : null);
+
+export const computeKpis = (run, until) => {
+  const testResults = run.testResults || [];
+  const changes = run.changes || [];
+  const logs = run.logs || [];
+  const passed = testResults.filter(r => r.status === 'passed').length;
+
+  const timelines = statusTimelines(run.devices, changes, until);
+  const availability = until > 0
+    ? timelines.map(({ device, segments }) => {
+      const time = Object.fromEntries(STATUSES.map(status => [status, 0]));
+      segments.forEach(s => { time[s.status] = (time[s.status] || 0) + s.end - s.start; });
+      return { device, ...time, availability: (until - time.alarm) / until };
+    })
+    : [];
+
+  const recovery = recoveryEpisodes(logs, until);
+
+  return {
+    until,
+    passRate: testResults.length ? passed / testResults.length : null,
+    testsPassed: passed,
+    testsRun: testResults.length,
+    availability: mean(availability.map(a => a.availability)),
+    deviceAvailability: availability,
+    activeAlarms: run.devices.filter(d => d.status === 'alarm').length,
+    mttr: mean(recovery.episodes.map(e => e.end - e.start)),
+    recoveries: recovery.episodes,
+    unresolved: recovery.unresolved,
+    timelines,
+    alarmSeries: alarmSeries(run.devices, changes, until)
+  };
+};
+
+// The device KPIs again for each site, from its own devices, events and status changes.
+// Test results belong to no site, so the pass rate is left out.
+export const siteKpis = (run, until) => (run.sites || [DEFAULT_SITE]).map(site => {
+  const devices = run.devices.filter(d => siteOf(d) === site.id);
+  const ids = new Set(devices.map(d => d.id));
+  const kpis = computeKpis({
+    devices,
+    logs: (run.logs || []).filter(log => ids.has(log.device)),
+    changes: (run.changes || []).filter(c => ids.has(c.device)),
+    testResults: []
+  }, until);
+  return { site, deviceCount: devices.length, ...kpis };
+});
+
+export const formatPercent = (value) => (value === null ? '—' : `${(value * 100).toFixed(1)}%`);
+
+export const formatSeconds = (value) => (value === null ? '—' : `${value.toFixed(1)}s`);
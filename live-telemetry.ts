@@ -0,0 +1,147 @@
+// Live telemetry from field devices during commissioning. Messages arrive on
+// two topics per device:
+//   rtp/<device>/status  { status: 'normal' | 'degraded' | 'alarm', value? }
+//   rtp/<device>/events  { type, severity, value? }
+// and are recorded as scenario events timed from the start of the session, so
+// the feed plays through the same simulation as canned scenarios and can be
+// replayed later. Transports are adapters:
+//   { connect({ onMessage(topic, payload), onStatus(status, error?) }) => disconnect() }
+
+import { createDeviceResolver, normalizeSeverity } from './log-import';
+
+export const TELEMETRY_TOPICS = ['rtp/+/status', 'rtp/+/events'];
+
+// Status messages become scenario events of this type
+export const STATUS_EVENT_TYPE = 'STATUS_REPORT';
+
+const STATUS_SEVERITY = { normal: 'LOW', degraded: 'HIGH', alarm: 'CRITICAL' };
+
+// Only the most recent problems are kept
+const MAX_ISSUES = 100;
+
+const TOPIC_PATTERN = /^rtp\/([^/]+)\/(status|events)$/;
+
+const decodePayload = (payload) => {
+  if (payload && typeof payload === 'object' && !(payload instanceof Uint8Array)) return payload;
+  const text = payload instanceof Uint8Array ? new TextDecoder().decode(payload) : String(payload ?? '');
+  return JSON.parse(text);
+};
+
+export const createTelemetrySession = (devices, { now = Date.now } = {}) => {
+  const startedAt = now();
+  const resolveDevice = createDeviceResolver(devices);
+  const events = [];
+  const issues = [];
+
+  const elapsed = () => (now() - startedAt) / 1000;
+
+  const reject = (time, topic, message) => {
+    issues.push({ time, topic, message });
+    if (issues.length > MAX_ISSUES) issues.shift();
+    return null;
+  };
+
+  // Returns the recorded event, or null when the message was rejected
+  const receive = (topic, payload) => {
+    const time = Math.round(elapsed() * 10) / 10;
+    const match = TOPIC_PATTERN.exec(String(topic ?? ''));
+    if (!match) return reject(time, topic, `Unexpected topic "${topic ?? ''}"`);
+    const device = resolveDevice(match[1]);
+    if (!device) return reject(time, topic, `Unknown device "${match[1]}"`);
+
+    let data;
+    try {
+      data = decodePayload(payload);
+    } catch {
+      return reject(time, topic, 'Payload is not JSON');
+    }
+
+    let event;
+    if (match[2] === 'status') {
+      const status = String(data?.status ?? '').toLowerCase();
+      if (!STATUS_SEVERITY[status]) return reject(time, topic, `Unknown status "${data?.status ?? ''}"`);
+      event = { time, device, type: STATUS_EVENT_TYPE, value: data?.value ?? status, severity: STATUS_SEVERITY[status], status };
+    } else {
+      const type = String(data?.type ?? '').trim();
+      const severity = normalizeSeverity(data?.severity);
+      if (!type) return reject(time, topic, 'Missing event type');
+      if (!severity) return reject(time, topic, `Unknown severity "${data?.severity ?? ''}"`);
+      event = { time, device, type, ...(data?.value !== undefined && { value: data.value }), severity };
+    }
+    events.push(event);
+    return event;
+  };
+
+  // The session so far, playable up to now
+  const toScenario = ({ id, name }) => ({
+    id,
+    name,
+    duration: Math.max(1, Math.ceil(elapsed())),
+    events: [...events],
+    source: { format: 'live', startedAt: new Date(startedAt).toISOString() }
+  });
+
+  return {
+    startedAt,
+    elapsed,
+    receive,
+    toScenario,
+    eventCount: () => events.length,
+    issues: () => [...issues]
+  };
+};
+
+// Each WebSocket frame is JSON: { topic, payload }
+export const createWebSocketAdapter = (url, { WebSocketImpl = globalThis.WebSocket } = {}) => ({
+  connect: ({ onMessage, onStatus }) => {
+    let closedByUs = false;
+    let failed = false;
+    onStatus('connecting');
+    const socket = new WebSocketImpl(url);
+    socket.onopen = () => onStatus('live');
+    socket.onmessage = (e) => {
+      let frame;
+      try {
+        frame = JSON.parse(e.data);
+      } catch {
+        onMessage(null, e.data);
+        return;
+      }
+      onMessage(frame?.topic, frame?.payload);
+    };
+    // An error is always followed by close; keep the error visible
+    socket.onerror = () => {
+      if (failed) return;
+      failed = true;
+      onStatus('error', `Connection to ${url} failed`);
+    };
+    socket.onclose = () => { if (!closedByUs && !failed) onStatus('closed'); };
+    return () => {
+      closedByUs = true;
+      socket.close();
+    };
+  }
+});
+
+// MQTT needs a client library, so the caller passes one in: mqtt.js's
+// `connect`, or anything with the same on/subscribe/end surface
+export const createMqttAdapter = (url, connectClient) => ({
+  connect: ({ onMessage, onStatus }) => {
+    let closedByUs = false;
+    onStatus('connecting');
+    const client = connectClient(url);
+    client.on('connect', () => {
+      client.subscribe(TELEMETRY_TOPICS, (err) => {
+        if (err) onStatus('error', `Subscribe failed: ${err.message}`);
+        else onStatus('live');
+      });
+    });
+    client.on('message', (topic, payload) => onMessage(topic, payload));
+    client.on('error', (err) => onStatus('error', err.message));
+    client.on('close', () => { if (!closedByUs) onStatus('closed'); });
+    return () => {
+      closedByUs = true;
+      client.end();
+    };
+  }
+});
@@ -0,0 +1,290 @@
+// Field log import: parses MOXA syslog (RFC 5424), VDC CSV exports and TRX
+// JSON-lines or JSON array dumps into scenario events of the shape { time, device, type, value, severity }.
+
+import { SEVERITY_COLORS } from './roadside-data';
+
+const SEVERITIES = Object.keys(SEVERITY_COLORS);
+
+const SEVERITY_ALIASES = {
+  DEBUG: 'LOW', INFO: 'LOW', INFORMATIONAL: 'LOW', NOTICE: 'LOW',
+  WARN: 'MEDIUM', WARNING: 'MEDIUM',
+  ERR: 'HIGH', ERROR: 'HIGH',
+  CRIT: 'CRITICAL', ALERT: 'CRITICAL', EMERG: 'CRITICAL', EMERGENCY: 'CRITICAL', FATAL: 'CRITICAL'
+};
+
+// Column / key names used by the different exporters
+const FIELD_ALIASES = {
+  time: ['time', 'timestamp', 'ts', 't', 'datetime'],
+  device: ['device', 'device_id', 'deviceid', 'host', 'hostname', 'source'],
+  type: ['type', 'event', 'event_type', 'msgid', 'code'],
+  value: ['value', 'val', 'data', 'payload'],
+  severity: ['severity', 'level', 'priority']
+};
+
+export const detectFormat = (fileName, text) => {
+  const ext = fileName.split('.').pop().toLowerCase();
+  const isArray = text.trimStart().startsWith('[');
+  if (ext === 'csv') return 'csv';
+  if (ext === 'jsonl' || ext === 'ndjson' || ext === 'json') return isArray ? 'json' : 'jsonl';
+  const firstLine = text.split(/\r?\n/).find(line => line.trim()) || '';
+  if (/^<\d{1,3}>1 /.test(firstLine)) return 'syslog';
+  if (isArray) return 'json';
+  if (firstLine.trim().startsWith('{')) return 'jsonl';
+  if (firstLine.includes(',')) return 'csv';
+  return 'syslog';
+};
+
+export const normalizeSeverity = (raw) => {
+  const key = String(raw ?? '').trim().toUpperCase();
+  if (SEVERITIES.includes(key)) return key;
+  return SEVERITY_ALIASES[key] || null;
+};
+
+// Syslog severity 0-7 from the PRI field
+const severityFromPri = (pri) => {
+  const code = pri % 8;
+  if (code <= 2) return 'CRITICAL';
+  if (code === 3) return 'HIGH';
+  if (code === 4) return 'MEDIUM';
+  return 'LOW';
+};
+
+const parseValue = (raw) => {
+  if (raw === undefined || raw === null) return undefined;
+  const text = String(raw).trim();
+  if (text === '' || text === '-') return undefined;
+  const num = Number(text);
+  return Number.isNaN(num) ? text : num;
+};
+
+// Seconds as a number, or absolute milliseconds when the field is a date
+const parseTime = (raw) => {
+  const text = String(raw ?? '').trim();
+  if (text === '') return null;
+  if (/^-?\d+(\.\d+)?$/.test(text)) return { seconds: parseFloat(text) };
+  const ms = Date.parse(text);
+  return Number.isNaN(ms) ? null : { ms };
+};
+
+const pickField = (record, field) => {
+  const key = Object.keys(record).find(k => FIELD_ALIASES[field].includes(k.trim().toLowerCase()));
+  return key === undefined ? undefined : record[key];
+};
+
+const splitCsvLine = (line) => {
+  const cells = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ',') { cells.push(cell); cell = ''; }
+    else cell += ch;
+  }
+  if (quoted) return null;
+  cells.push(cell);
+  return cells;
+};
+
+const parseCsv = (lines, issues) => {
+  const headerIdx = lines.findIndex(l => l.text.trim());
+  if (headerIdx === -1) return [];
+  const header = splitCsvLine(lines[headerIdx].text) || [];
+  const records = [];
+  lines.slice(headerIdx + 1).forEach(({ line, text }) => {
+    if (!text.trim()) return;
+    const cells = splitCsvLine(text);
+    if (!cells) {
+      issues.push({ line, message: 'Unterminated quoted field' });
+      return;
+    }
+    if (cells.length !== header.length) {
+      issues.push({ line, message: `Expected ${header.length} columns, found ${cells.length}` });
+      return;
+    }
+    records.push({ line, record: Object.fromEntries(header.map((h, i) => [h, cells[i]])) });
+  });
+  return records;
+};
+
+const parseJsonLines = (lines, issues) => {
+  const records = [];
+  lines.forEach(({ line, text }) => {
+    if (!text.trim()) return;
+    try {
+      const record = JSON.parse(text);
+      if (!record || typeof record !== 'object' || Array.isArray(record)) {
+        issues.push({ line, message: 'Expected a JSON object' });
+        return;
+      }
+      records.push({ line, record });
+    } catch (err) {
+      issues.push({ line, message: `Invalid JSON: ${err.message}` });
+    }
+  });
+  return records;
+};
+
+// Line on which each top-level array item starts, skipping over strings
+const arrayItemLines = (text) => {
+  const starts = [];
+  let line = 1;
+  let depth = 0;
+  let inString = false;
+  let expectItem = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '\n') line++;
+    if (inString) {
+      if (ch === '\\') i++;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (/\s/.test(ch)) continue;
+    if (depth === 1 && expectItem && ch !== ']') {
+      starts.push(line);
+      expectItem = false;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === '[' || ch === '{') {
+      depth++;
+      if (depth === 1) expectItem = true;
+    } else if (ch === ']' || ch === '}') depth--;
+    else if (ch === ',' && depth === 1) expectItem = true;
+  }
+  return starts;
+};
+
+const parseJsonArray = (lines, issues) => {
+  const text = lines.map(l => l.text).join('\n');
+  let items;
+  try {
+    items = JSON.parse(text);
+  } catch (err) {
+    issues.push({ line: 1, message: `Invalid JSON: ${err.message}` });
+    return [];
+  }
+  if (!Array.isArray(items)) {
+    issues.push({ line: 1, message: 'Expected a JSON array' });
+    return [];
+  }
+  const itemLines = arrayItemLines(text);
+  const records = [];
+  items.forEach((record, idx) => {
+    const line = itemLines[idx] ?? 1;
+    if (!record || typeof record !== 'object' || Array.isArray(record)) {
+      issues.push({ line, message: 'Expected a JSON object' });
+      return;
+    }
+    records.push({ line, record });
+  });
+  return records;
+};
+
+// <PRI>1 TIMESTAMP HOSTNAME APP-NAME PROCID MSGID [SD-ELEMENTS|-] MSG
+const SYSLOG_PATTERN = /^<(\d{1,3})>1 (\S+) (\S+) (\S+) (\S+) (\S+) (-|(?:\[[^\]]*\])+)(?: (.*))?$/;
+
+const parseSyslog = (lines, issues) => {
+  const records = [];
+  lines.forEach(({ line, text }) => {
+    if (!text.trim()) return;
+    const match = text.trim().match(SYSLOG_PATTERN);
+    if (!match) {
+      issues.push({ line, message: 'Not an RFC 5424 syslog record' });
+      return;
+    }
+    const [, pri, timestamp, hostname, appName, , msgId, structured, msg] = match;
+    const params = Object.fromEntries(
+      [...structured.matchAll(/(\w+)="((?:[^"\\]|\\.)*)"/g)].map(([, key, val]) => [key, val])
+    );
+    records.push({
+      line,
+      record: {
+        time: timestamp,
+        device: hostname !== '-' ? hostname : appName,
+        type: msgId !== '-' ? msgId : params.type,
+        value: params.value ?? (msg ? msg.replace(/^\uFEFF/, '') : undefined),
+        severity: params.severity || severityFromPri(parseInt(pri, 10))
+      }
+    });
+  });
+  return records;
+};
+
+const PARSERS = { csv: parseCsv, jsonl: parseJsonLines, json: parseJsonArray, syslog: parseSyslog };
+
+const deviceKey = (id) => {
+  const match = String(id).toUpperCase().replace(/[^A-Z0-9]/g, '').match(/^([A-Z]+?)0*(\d+)$/);
+  return match ? `${match[1]}${match[2]}` : String(id).toUpperCase().replace(/[^A-Z0-9]/g, '');
+};
+
+// Resolves exporter-specific spellings (vdc1, TRX_1, moxa-01) onto inventory IDs
+export const createDeviceResolver = (devices) => {
+  const byKey = new Map(devices.map(d => [deviceKey(d.id), d.id]));
+  return (rawId) => {
+    const id = String(rawId ?? '').trim();
+    if (!id) return null;
+    if (devices.some(d => d.id === id)) return id;
+    return byKey.get(deviceKey(id)) || null;
+  };
+};
+
+export const importLogFile = (fileName, text, devices, { id = null, name = null } = {}) => {
+  const format = detectFormat(fileName, text);
+  const issues = [];
+  const lines = text.split(/\r?\n/).map((t, i) => ({ line: i + 1, text: t }));
+  const resolveDevice = createDeviceResolver(devices);
+
+  const parsed = [];
+  PARSERS[format](lines, issues).forEach(({ line, record }) => {
+    const time = parseTime(pickField(record, 'time'));
+    const rawDevice = pickField(record, 'device');
+    const device = resolveDevice(rawDevice);
+    const type = String(pickField(record, 'type') ?? '').trim();
+    const severity = normalizeSeverity(pickField(record, 'severity'));
+
+    const problem =
+      !time ? 'Missing or unreadable time' :
+      time.seconds < 0 ? `Negative time ${time.seconds}` :
+      !device ? `Unknown device "${rawDevice ?? ''}"` :
+      !type ? 'Missing event type' :
+      !severity ? `Unknown severity "${pickField(record, 'severity') ?? ''}"` :
+      null;
+    if (problem) {
+      issues.push({ line, message: problem });
+      return;
+    }
+    parsed.push({ line, time, device, type, value: parseValue(pickField(record, 'value')), severity });
+  });
+
+  // Absolute timestamps become offsets from the first record in the file
+  const absolute = parsed.filter(p => p.time.ms !== undefined).map(p => p.time.ms);
+  const origin = absolute.reduce((min, ms) => Math.min(min, ms), Infinity);
+
+  const events = parsed
+    .map(({ time, device, type, value, severity }) => ({
+      time: time.ms !== undefined ? (time.ms - origin) / 1000 : time.seconds,
+      device,
+      type,
+      ...(value !== undefined && { value }),
+      severity
+    }))
+    .sort((a, b) => a.time - b.time);
+
+  const lastTime = events.length ? events[events.length - 1].time : 0;
+
+  return {
+    scenario: {
+      id,
+      name: name || fileName,
+      duration: Math.max(1, Math.ceil(lastTime)),
+      events,
+      source: { file: fileName, format }
+    },
+    issues: issues.sort((a, b) => a.line - b.line)
+  };
+};
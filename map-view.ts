@@ -0,0 +1,96 @@
+// System Map geometry. Device locations are world coordinates; a view
+// { x, y, scale } maps them to canvas pixels as world * scale + (x, y).
+
+import { siteOf } from './site-hierarchy';
+
+export const DEVICE_RADIUS = 30;
+export const MIN_ZOOM = 0.1;
+export const MAX_ZOOM = 4;
+
+const clampZoom = (scale) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, scale));
+
+export const toWorld = (view, sx, sy) => ({ x: (sx - view.x) / view.scale, y: (sy - view.y) / view.scale });
+
+export const toScreen = (view, wx, wy) => ({ x: wx * view.scale + view.x, y: wy * view.scale + view.y });
+
+// Zoom by `factor` while the world point under (sx, sy) stays put
+export const zoomAt = (view, factor, sx, sy) => {
+  const scale = clampZoom(view.scale * factor);
+  const anchor = toWorld(view, sx, sy);
+  return { x: sx - anchor.x * scale, y: sy - anchor.y * scale, scale };
+};
+
+// View that shows every device, with room for labels; never zooms in past 1:1
+export const fitView = (devices, width, height, padding = 60) => {
+  if (devices.length === 0 || width <= 0 || height <= 0) return { x: 0, y: 0, scale: 1 };
+  const xs = devices.map(d => d.location.x);
+  const ys = devices.map(d => d.location.y);
+  const minX = Math.min(...xs) - padding;
+  const maxX = Math.max(...xs) + padding;
+  const minY = Math.min(...ys) - padding;
+  const maxY = Math.max(...ys) + padding;
+  const scale = clampZoom(Math.min(1, width / (maxX - minX), height / (maxY - minY)));
+  return {
+    x: (width - (maxX - minX) * scale) / 2 - minX * scale,
+    y: (height - (maxY - minY) * scale) / 2 - minY * scale,
+    scale
+  };
+};
+
+// World rectangle visible in a width × height canvas, for culling
+export const visibleBounds = (view, width, height, margin = DEVICE_RADIUS * 2) => {
+  const topLeft = toWorld(view, 0, 0);
+  const bottomRight = toWorld(view, width, height);
+  return { minX: topLeft.x - margin, minY: topLeft.y - margin, maxX: bottomRight.x + margin, maxY: bottomRight.y + margin };
+};
+
+// Uniform grid over device locations. A device lands in the cell of its centre,
+// so a point only needs to look at its own cell and the eight around it.
+export const createHitIndex = (devices, radius = DEVICE_RADIUS) => {
+  const cellSize = radius * 2;
+  const cells = new Map();
+  const key = (cx, cy) => `${cx},${cy}`;
+  devices.forEach((device, order) => {
+    const k = key(Math.floor(device.location.x / cellSize), Math.floor(device.location.y / cellSize));
+    if (!cells.has(k)) cells.set(k, []);
+    cells.get(k).push({ device, order });
+  });
+
+  // Device whose circle contains the world point; the one drawn last wins
+  const at = (x, y) => {
+    const cx = Math.floor(x / cellSize);
+    const cy = Math.floor(y / cellSize);
+    let hit = null;
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        (cells.get(key(cx + dx, cy + dy)) || []).forEach(entry => {
+          const { location } = entry.device;
+          if (Math.hypot(location.x - x, location.y - y) <= radius && (!hit || entry.order > hit.order)) hit = entry;
+        });
+      }
+    }
+    return hit ? hit.device : null;
+  };
+
+  return { at };
+};
+
+const STATUS_RANK = { normal: 0, degraded: 1, alarm: 2 };
+
+// Box around each site's devices, carrying the worst device status at the site:
+// [{ site, minX, minY, maxX, maxY, status }]
+export const siteOutlines = (sites, devices, padding = DEVICE_RADIUS * 2) => sites.flatMap(site => {
+  const members = devices.filter(d => siteOf(d) === site.id);
+  if (members.length === 0) return [];
+  const xs = members.map(d => d.location.x);
+  const ys = members.map(d => d.location.y);
+  const status = members.reduce((worst, d) => (STATUS_RANK[d.status] > STATUS_RANK[worst] ? d.status : worst), 'normal');
+  return [{
+    site,
+    minX: Math.min(...xs) - padding,
+    minY: Math.min(...ys) - padding,
+    maxX: Math.max(...xs) + padding,
+    maxY: Math.max(...ys) + padding,
+    status
+  }];
+});
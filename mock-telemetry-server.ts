@@ -0,0 +1,135 @@
+#!/usr/bin/env -S npx tsx
+// Local WebSocket server that streams simulated device telemetry in the
+// live-telemetry frame format, for trying the Live Feed without field devices:
+//
+//   npx tsx mock-telemetry-server.ts [--port 8787] [--speed 1]
+//                                    [--scenarios scenarios.json] [--site site-config.json]
+//
+// Each device reports status 'normal' to a new client; the scenarios' events
+// are then played in real time (times --speed), looping forever. Only the
+// minimum of RFC 6455 needed for server-to-client text frames is implemented.
+
+import { createServer } from 'node:http';
+import type { Duplex } from 'node:stream';
+import { createHash } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { generateSeedData } from './roadside-data';
+import { parseScenarioFile } from './scenario-schema';
+import { parseSiteConfig } from './device-inventory';
+import { resolveSelectors } from './site-hierarchy';
+
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const OPCODE = { text: 0x1, close: 0x8 };
+
+const option = (name, fallback) => {
+  const idx = process.argv.indexOf(`--${name}`);
+  return idx === -1 ? fallback : process.argv[idx + 1];
+};
+
+const USAGE = 'Usage: npx tsx mock-telemetry-server.ts [--port 8787] [--speed 1] [--scenarios scenarios.json] [--site site-config.json]';
+
+// Bad arguments exit with status 2, as in the headless runner
+const usageError = (message) => {
+  console.error(`${message}\n${USAGE}`);
+  process.exit(2);
+};
+
+const port = Number(option('port', 8787));
+const speed = Number(option('speed', 1));
+const scenarioFile = option('scenarios', null);
+const siteFile = option('site', null);
+
+if (!Number.isInteger(port) || port < 0 || port > 65535) usageError('--port must be a whole number from 0 to 65535');
+// A zero, negative or NaN speed would replay every event at once, over and over
+if (!Number.isFinite(speed) || speed <= 0) usageError('--speed must be a number above 0');
+
+const seed = generateSeedData();
+const scenarios = scenarioFile ? parseScenarioFile(readFileSync(scenarioFile, 'utf8')) : seed.scenarios;
+const devices = siteFile ? parseSiteConfig(readFileSync(siteFile, 'utf8')).devices : seed.devices;
+
+// With nothing to play the stream loop would never wait
+if (scenarios.length === 0) usageError(`No scenarios in ${scenarioFile}`);
+
+const encodeFrame = (opcode, data = Buffer.alloc(0)) => {
+  let header;
+  if (data.length < 126) {
+    header = Buffer.from([0x80 | opcode, data.length]);
+  } else if (data.length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(data.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(data.length), 2);
+  }
+  return Buffer.concat([header, data]);
+};
+
+const clients = new Set<Duplex>();
+
+const broadcast = (topic, payload) => {
+  const frame = encodeFrame(OPCODE.text, Buffer.from(JSON.stringify({ topic, payload })));
+  clients.forEach(socket => socket.write(frame));
+};
+
+const server = createServer((req, res) => {
+  res.writeHead(426, { 'Content-Type': 'text/plain' });
+  res.end('Connect with a WebSocket client\n');
+});
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (!key) {
+    socket.destroy();
+    return;
+  }
+  const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '',
+    ''
+  ].join('\r\n'));
+  clients.add(socket);
+  console.log(`Client connected (${clients.size})`);
+
+  // Client frames are ignored apart from close
+  socket.on('data', (data) => {
+    if ((data[0] & 0x0f) === OPCODE.close) socket.end(encodeFrame(OPCODE.close));
+  });
+  socket.on('close', () => {
+    clients.delete(socket);
+    console.log(`Client disconnected (${clients.size})`);
+  });
+  socket.on('error', () => clients.delete(socket));
+
+  devices.forEach(device => socket.write(encodeFrame(OPCODE.text,
+    Buffer.from(JSON.stringify({ topic: `rtp/${device.id}/status`, payload: { status: 'normal' } })))));
+});
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+const stream = async () => {
+  for (;;) {
+    for (const scenario of scenarios) {
+      console.log(`Streaming ${scenario.id} ${scenario.name}`);
+      let clock = 0;
+      for (const event of resolveSelectors(scenario.events, devices).sort((a, b) => a.time - b.time)) {
+        await sleep(((event.time - clock) * 1000) / speed);
+        clock = event.time;
+        broadcast(`rtp/${event.device}/events`, { type: event.type, severity: event.severity, value: event.value });
+      }
+      await sleep(((scenario.duration - clock) * 1000) / speed);
+    }
+  }
+};
+
+server.listen(port, () => {
+  console.log(`Mock telemetry on ws://localhost:${port} (${scenarios.length} scenarios, ${speed}x)`);
+  stream();
+});
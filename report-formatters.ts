@@ -0,0 +1,203 @@
+// Report export. A report is built once from a run and handed to a formatter:
+//   { id, label, extension, mimeType, format(report) => string }
+// New formats only need registerReportFormatter.
+
+import { DEVICE_TYPES, LINK_TYPES } from './roadside-data';
+import { computeKpis, formatPercent, formatSeconds } from './kpis';
+import { DEVICE_RADIUS } from './map-view';
+
+export const buildReport = (run, until) => ({
+  generatedAt: new Date().toISOString(),
+  run: run.id || null,
+  scenario: run.scenario ? { id: run.scenario.id, name: run.scenario.name, duration: run.scenario.duration } : null,
+  kpis: computeKpis(run, until),
+  testResults: (run.testResults || []).map(({ logs, changes, ...result }) => result),
+  // Oldest first, every entry
+  logs: [...(run.logs || [])].sort((a, b) => a.time - b.time || a.id - b.id),
+  devices: run.devices,
+  links: run.links || []
+});
+
+const escapeXml = (value) => String(value ?? '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&apos;');
+
+const escapeCsv = (value) => {
+  const text = String(value ?? '');
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const jsonFormatter = {
+  id: 'json',
+  label: 'JSON',
+  extension: 'json',
+  mimeType: 'application/json',
+  format: (report) => {
+    const { timelines, alarmSeries, ...kpis } = report.kpis;
+    return JSON.stringify({ ...report, kpis }, null, 2);
+  }
+};
+
+const junitFormatter = {
+  id: 'junit',
+  label: 'JUnit XML',
+  extension: 'xml',
+  mimeType: 'application/xml',
+  format: (report) => {
+    const suites = [...new Set(report.testResults.map(r => r.suite || 'Default'))];
+    const totals = (results) => ({
+      tests: results.length,
+      failures: results.filter(r => r.status === 'failed').length,
+      errors: results.filter(r => r.status === 'error').length,
+      time: results.reduce((sum, r) => sum + r.duration, 0).toFixed(3)
+    });
+    const attrs = (t) => `tests="${t.tests}" failures="${t.failures}" errors="${t.errors}" time="${t.time}"`;
+
+    const testCase = (r) => {
+      const open = `    <testcase classname="${escapeXml(r.suite || 'Default')}" name="${escapeXml(`${r.id} ${r.name}`)}" time="${r.duration.toFixed(3)}"`;
+      if (r.status === 'passed') return `${open} />`;
+      const tag = r.status === 'error' ? 'error' : 'failure';
+      const detail = (r.assertions || []).map(a => `${a.passed ? 'PASS' : 'FAIL'} ${a.description}${a.message ? `: ${a.message}` : ''}`).join('\n');
+      return [
+        `${open}>`,
+        `      <${tag} message="${escapeXml(r.failure?.message)}" type="${escapeXml(r.failure?.assertion || tag)}">${escapeXml(detail)}</${tag}>`,
+        '    </testcase>'
+      ].join('\n');
+    };
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<testsuites name="Roadside Equipment Test Playground" ${attrs(totals(report.testResults))}>`,
+      ...suites.map(suite => {
+        const results = report.testResults.filter(r => (r.suite || 'Default') === suite);
+        return [
+          `  <testsuite name="${escapeXml(suite)}" timestamp="${report.generatedAt}" ${attrs(totals(results))}>`,
+          ...results.map(testCase),
+          '  </testsuite>'
+        ].join('\n');
+      }),
+      '</testsuites>',
+      ''
+    ].join('\n');
+  }
+};
+
+const csvFormatter = {
+  id: 'csv',
+  label: 'CSV event log',
+  extension: 'csv',
+  mimeType: 'text/csv',
+  format: (report) => {
+    const header = ['time', 'timestamp', 'device', 'type', 'severity', 'message', 'rule', 'source_device', 'source_type', 'manual'];
+    const rows = report.logs.map(log => [
+      log.time, log.timestamp, log.device, log.type, log.level, log.message,
+      log.cause?.rule, log.cause?.source.device, log.cause?.source.type, log.manual ? 'yes' : ''
+    ]);
+    return [header, ...rows].map(row => row.map(escapeCsv).join(',')).join('\r\n') + '\r\n';
+  }
+};
+
+const STATUS_FILL = { normal: null, degraded: '#f59e0b', alarm: '#ef4444' };
+const LINK_STROKE = { degraded: '#f59e0b', down: '#ef4444' };
+// Device labels sit this far below the device centre
+const LABEL_OFFSET = 40;
+
+// World rectangle around every device, its circle and its label
+const topologyBounds = (devices) => {
+  if (devices.length === 0) return { x: 0, y: 0, width: DEVICE_RADIUS * 2, height: DEVICE_RADIUS * 2 };
+  const xs = devices.map(d => d.location.x);
+  const ys = devices.map(d => d.location.y);
+  const x = Math.min(...xs) - DEVICE_RADIUS;
+  const y = Math.min(...ys) - DEVICE_RADIUS;
+  return { x, y, width: Math.max(...xs) + DEVICE_RADIUS - x, height: Math.max(...ys) + LABEL_OFFSET + DEVICE_RADIUS - y };
+};
+
+const topologySvg = (devices, links) => {
+  const lines = links.map(link => {
+    const from = devices.find(d => d.id === link.from);
+    const to = devices.find(d => d.id === link.to);
+    if (!from || !to) return '';
+    const style = LINK_TYPES[link.type] || { color: '#94a3b8', dash: [] };
+    const dash = link.status === 'down' ? '6 6' : style.dash.join(' ');
+    return `<line x1="${from.location.x}" y1="${from.location.y}" x2="${to.location.x}" y2="${to.location.y}" ` +
+      `stroke="${LINK_STROKE[link.status] || style.color}" stroke-width="2"${dash ? ` stroke-dasharray="${dash}"` : ''} />`;
+  });
+  const nodes = devices.map(d => {
+    const fill = STATUS_FILL[d.status] || DEVICE_TYPES[d.type]?.color || '#64748b';
+    return `<circle cx="${d.location.x}" cy="${d.location.y}" r="24" fill="${fill}" stroke="#fff" stroke-width="2" />` +
+      `<text x="${d.location.x}" y="${d.location.y + LABEL_OFFSET}" text-anchor="middle" font-size="12" font-weight="bold">${escapeXml(d.id)}</text>`;
+  });
+  const { x, y, width, height } = topologyBounds(devices);
+  return `<svg viewBox="${x} ${y} ${width} ${height}" width="${width}" height="${height}">${lines.join('')}${nodes.join('')}</svg>`;
+};
+
+const htmlFormatter = {
+  id: 'html',
+  label: 'HTML (printable)',
+  extension: 'html',
+  mimeType: 'text/html',
+  format: (report) => {
+    const { kpis } = report;
+    const title = `Test Report${report.scenario ? ` – ${report.scenario.name}` : ''}`;
+    const kpiCells = [
+      ['Test Pass Rate', `${formatPercent(kpis.passRate)} (${kpis.testsPassed}/${kpis.testsRun})`],
+      ['Availability', formatPercent(kpis.availability)],
+      ['Mean Time to Recover', formatSeconds(kpis.mttr)],
+      ['Active Alarms', String(kpis.activeAlarms)]
+    ].map(([label, value]) => `<div class="kpi"><div class="label">${label}</div><div class="value">${escapeXml(value)}</div></div>`);
+
+    const testRows = report.testResults.map(r => `<tr class="${r.status}"><td>${escapeXml(r.id)}</td><td>${escapeXml(r.name)}</td>` +
+      `<td>${escapeXml(r.suite)}</td><td>${r.status}</td><td>${escapeXml(r.failure ? `${r.failure.assertion || ''} ${r.failure.message}` : '')}</td></tr>`);
+    const logRows = report.logs.map(log => `<tr><td>${log.time.toFixed(1)}s</td><td>${escapeXml(log.device)}</td>` +
+      `<td class="sev-${escapeXml(log.level)}">${escapeXml(log.level)}</td><td>${escapeXml(log.message)}</td>` +
+      `<td>${escapeXml(log.manual ? 'Injected manually' : log.cause ? `${log.cause.rule} from ${log.cause.source.device} ${log.cause.source.type}` : '')}</td></tr>`);
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeXml(title)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #0f172a; margin: 2rem; }
+  h1 { margin-bottom: 0; }
+  .meta { color: #64748b; margin-bottom: 1.5rem; }
+  .kpis { display: flex; gap: 1rem; margin-bottom: 1.5rem; }
+  .kpi { border: 1px solid #cbd5e1; border-radius: 8px; padding: 0.75rem 1rem; flex: 1; }
+  .kpi .label { color: #64748b; font-size: 0.85rem; }
+  .kpi .value { font-size: 1.5rem; font-weight: bold; }
+  table { border-collapse: collapse; width: 100%; margin-bottom: 1.5rem; font-size: 0.85rem; }
+  th, td { border-bottom: 1px solid #e2e8f0; padding: 4px 8px; text-align: left; vertical-align: top; }
+  tr.failed td, tr.error td { color: #b91c1c; }
+  .sev-CRITICAL { color: #b91c1c; font-weight: bold; }
+  .sev-HIGH { color: #c2410c; }
+  svg { border: 1px solid #e2e8f0; border-radius: 8px; max-width: 100%; height: auto; }
+  @media print { body { margin: 0; } section { break-inside: avoid; } }
+</style>
+</head>
+<body>
+<h1>${escapeXml(title)}</h1>
+<p class="meta">Generated ${escapeXml(report.generatedAt)}${report.run ? ` · Run ${escapeXml(report.run)}` : ''}</p>
+<section><h2>KPI Summary</h2><div class="kpis">${kpiCells.join('')}</div></section>
+${report.testResults.length ? `<section><h2>Test Results</h2><table><tr><th>ID</th><th>Name</th><th>Suite</th><th>Status</th><th>Failure</th></tr>${testRows.join('')}</table></section>` : ''}
+${report.devices.length ? `<section><h2>Topology</h2>${topologySvg(report.devices, report.links)}</section>` : ''}
+<section><h2>Event Log (${report.logs.length} entries)</h2><table><tr><th>Time</th><th>Device</th><th>Severity</th><th>Message</th><th>Cause</th></tr>${logRows.join('')}</table></section>
+</body>
+</html>
+`;
+  }
+};
+
+const REPORT_FORMATTERS = [jsonFormatter, junitFormatter, htmlFormatter, csvFormatter];
+
+export const registerReportFormatter = (formatter) => {
+  const existing = REPORT_FORMATTERS.findIndex(f => f.id === formatter.id);
+  if (existing === -1) REPORT_FORMATTERS.push(formatter);
+  else REPORT_FORMATTERS[existing] = formatter;
+};
+
+export const getReportFormatters = () => [...REPORT_FORMATTERS];
+
+export const getReportFormatter = (id) => REPORT_FORMATTERS.find(f => f.id === id) || null;
@@ -0,0 +1,264 @@
+// Configuration field definitions shared by several device types
+const NETWORK_CONFIG = {
+  ip: { label: 'IP Address', kind: 'ip', default: '10.0.0.10' },
+  port: { label: 'Port', kind: 'number', min: 1, max: 65535, default: 502 }
+};
+
+// Allowed clock offset from the site master before a device counts as out of sync
+const syncTolerance = (ms) => ({
+  syncTolerance: { label: 'Sync Tolerance (ms)', kind: 'number', min: 1, max: 60000, default: ms }
+});
+
+// Data types. `config` describes the per-type configuration each device carries.
+export const DEVICE_TYPES = {
+  VR: {
+    name: 'Video Recognition', color: '#3b82f6', icon: '📷',
+    models: ['VRX-200', 'VRX-300'],
+    config: {
+      ...NETWORK_CONFIG,
+      frameRate: { label: 'Frame Rate (fps)', kind: 'number', min: 1, max: 120, default: 25 },
+      ...syncTolerance(40)
+    }
+  },
+  VDC: {
+    name: 'Vehicle Data Collector', color: '#8b5cf6', icon: '🚗',
+    models: ['VDC-500', 'VDC-700'],
+    config: {
+      ...NETWORK_CONFIG,
+      bufferCapacity: { label: 'Buffer Capacity (records)', kind: 'number', min: 1, max: 1000000, default: 8000 },
+      drainRate: { label: 'Upload Rate (records/s)', kind: 'number', min: 1, max: 100000, default: 500 },
+      ...syncTolerance(100)
+    }
+  },
+  TSMC: {
+    name: 'Traffic Station Controller', color: '#ec4899', icon: '🎛️',
+    models: ['TSMC-100', 'TSMC-200'],
+    config: { ...NETWORK_CONFIG, ...syncTolerance(100) }
+  },
+  TSC: {
+    name: 'Traffic Signal Controller', color: '#f59e0b', icon: '🚦',
+    models: ['TSC-2070'],
+    config: {
+      phasePlan: { label: 'Phase Plan', kind: 'select', options: ['fixed-time', 'actuated', 'adaptive'], default: 'fixed-time' },
+      cycleLength: { label: 'Cycle Length (s)', kind: 'number', min: 30, max: 240, default: 90 },
+      ...syncTolerance(100)
+    }
+  },
+  MOXA: {
+    name: 'Serial/IoT Gateway', color: '#10b981', icon: '🔌',
+    models: ['MOXA-G1', 'NPort-5150'],
+    config: {
+      baudRate: { label: 'Baud Rate', kind: 'select', options: [9600, 19200, 38400, 57600, 115200], default: 9600 },
+      parity: { label: 'Parity', kind: 'select', options: ['none', 'even', 'odd'], default: 'none' },
+      dataBits: { label: 'Data Bits', kind: 'select', options: [7, 8], default: 8 },
+      ...syncTolerance(1500)
+    }
+  },
+  TRX: {
+    name: 'DSRC Transceiver', color: '#06b6d4', icon: '📡',
+    models: ['TRX-300'],
+    config: {
+      channel: { label: 'DSRC Channel', kind: 'select', options: [172, 174, 176, 178, 180, 182, 184], default: 178 },
+      txPower: { label: 'Transmit Power (dBm)', kind: 'number', min: 0, max: 33, default: 20 },
+      throughput: { label: 'Throughput (msg/s)', kind: 'number', min: 1, max: 100000, default: 900 },
+      queueCapacity: { label: 'Queue Capacity (msgs)', kind: 'number', min: 1, max: 1000000, default: 9000 },
+      rateLimit: { label: 'Rate Limit (msg/s)', kind: 'number', min: 1, max: 100000, default: 100 },
+      ...syncTolerance(50)
+    }
+  },
+  Gantry: {
+    name: 'Gantry System', color: '#6366f1', icon: '🏗️',
+    models: ['GNT-XL', 'GNT-S'],
+    config: {
+      lanes: { label: 'Lanes', kind: 'number', min: 1, max: 8, default: 3 },
+      ...syncTolerance(100)
+    }
+  },
+  Shelter: {
+    name: 'Tech Shelter', color: '#64748b', icon: '🏠',
+    models: ['SHL-2'],
+    config: {
+      upsRuntime: { label: 'UPS Runtime (min)', kind: 'number', min: 0, max: 480, default: 60 },
+      ...syncTolerance(1000)
+    }
+  }
+};
+
+export const LINK_TYPES = {
+  serial: { name: 'Serial (via MOXA)', color: '#10b981', dash: [] },
+  ethernet: { name: 'Ethernet', color: '#94a3b8', dash: [] },
+  dsrc: { name: 'DSRC Radio', color: '#06b6d4', dash: [2, 6] },
+  power: { name: 'Power', color: '#facc15', dash: [10, 4] }
+};
+
+export const SEVERITY_COLORS = {
+  LOW: 'bg-blue-100 text-blue-800',
+  MEDIUM: 'bg-yellow-100 text-yellow-800',
+  HIGH: 'bg-orange-100 text-orange-800',
+  CRITICAL: 'bg-red-100 text-red-800'
+};
+
+// Sample seed data: two sites joined by a backhaul link
+export const generateSeedData = () => {
+  const sites = [
+    { id: 'SITE-1', name: 'North Plaza' },
+    { id: 'SITE-2', name: 'South Plaza' }
+  ];
+
+  // `parent` is the gantry or shelter a device is mounted in; `lane` narrows a gantry device to one lane
+  const devices = [
+    { id: 'VR-01', type: 'VR', model: 'VRX-200', status: 'normal', location: { x: 100, y: 200 },
+      config: { ip: '10.0.1.11', port: 554, frameRate: 25, syncTolerance: 40 }, site: 'SITE-1', parent: 'GANTRY-1', lane: 1 },
+    { id: 'VDC-1', type: 'VDC', model: 'VDC-500', status: 'normal', location: { x: 300, y: 200 },
+      config: { ip: '10.0.1.21', port: 502, bufferCapacity: 8000, drainRate: 500, syncTolerance: 100 }, site: 'SITE-1', parent: 'SHELTER-1' },
+    { id: 'TSMC-1', type: 'TSMC', model: 'TSMC-100', status: 'normal', location: { x: 500, y: 200 },
+      config: { ip: '10.0.1.31', port: 502, syncTolerance: 100 }, site: 'SITE-1', parent: 'SHELTER-1' },
+    { id: 'MOXA-1', type: 'MOXA', model: 'MOXA-G1', status: 'normal', location: { x: 200, y: 350 },
+      config: { baudRate: 115200, parity: 'none', dataBits: 8, syncTolerance: 1500 }, site: 'SITE-1', parent: 'SHELTER-1' },
+    { id: 'TRX-01', type: 'TRX', model: 'TRX-300', status: 'normal', location: { x: 400, y: 350 },
+      config: { channel: 178, txPower: 20, throughput: 900, queueCapacity: 9000, rateLimit: 100, syncTolerance: 50 }, site: 'SITE-1', parent: 'GANTRY-1' },
+    { id: 'GANTRY-1', type: 'Gantry', model: 'GNT-XL', status: 'normal', location: { x: 300, y: 100 },
+      config: { lanes: 3, syncTolerance: 100 }, site: 'SITE-1', parent: null },
+    { id: 'SHELTER-1', type: 'Shelter', model: 'SHL-2', status: 'normal', location: { x: 520, y: 420 },
+      config: { upsRuntime: 60, syncTolerance: 1000 }, site: 'SITE-1', parent: null },
+
+    { id: 'GANTRY-2', type: 'Gantry', model: 'GNT-S', status: 'normal', location: { x: 900, y: 100 },
+      config: { lanes: 2, syncTolerance: 100 }, site: 'SITE-2', parent: null },
+    { id: 'VR-02', type: 'VR', model: 'VRX-300', status: 'normal', location: { x: 750, y: 200 },
+      config: { ip: '10.0.2.11', port: 554, frameRate: 25, syncTolerance: 40 }, site: 'SITE-2', parent: 'GANTRY-2', lane: 1 },
+    { id: 'TRX-02', type: 'TRX', model: 'TRX-300', status: 'normal', location: { x: 850, y: 350 },
+      config: { channel: 178, txPower: 20, throughput: 900, queueCapacity: 9000, rateLimit: 100, syncTolerance: 50 }, site: 'SITE-2', parent: 'GANTRY-2', lane: 1 },
+    { id: 'TRX-03', type: 'TRX', model: 'TRX-300', status: 'normal', location: { x: 980, y: 350 },
+      config: { channel: 180, txPower: 20, throughput: 900, queueCapacity: 9000, rateLimit: 100, syncTolerance: 50 }, site: 'SITE-2', parent: 'GANTRY-2', lane: 2 },
+    { id: 'MOXA-2', type: 'MOXA', model: 'NPort-5150', status: 'normal', location: { x: 900, y: 480 },
+      config: { baudRate: 115200, parity: 'none', dataBits: 8, syncTolerance: 1500 }, site: 'SITE-2', parent: 'SHELTER-2' },
+    { id: 'VDC-2', type: 'VDC', model: 'VDC-700', status: 'normal', location: { x: 750, y: 420 },
+      config: { ip: '10.0.2.21', port: 502, bufferCapacity: 8000, drainRate: 500, syncTolerance: 100 }, site: 'SITE-2', parent: 'SHELTER-2' },
+    { id: 'SHELTER-2', type: 'Shelter', model: 'SHL-2', status: 'normal', location: { x: 1050, y: 200 },
+      config: { upsRuntime: 90, syncTolerance: 1000 }, site: 'SITE-2', parent: null }
+  ];
+
+  // Links run from the upstream device to the downstream one
+  const links = [
+    { id: 'L-01', from: 'VR-01', to: 'VDC-1', type: 'ethernet' },
+    { id: 'L-02', from: 'VDC-1', to: 'TSMC-1', type: 'ethernet' },
+    { id: 'L-03', from: 'TRX-01', to: 'MOXA-1', type: 'serial' },
+    { id: 'L-04', from: 'MOXA-1', to: 'VDC-1', type: 'ethernet' },
+    { id: 'L-05', from: 'MOXA-1', to: 'TSMC-1', type: 'ethernet' },
+    { id: 'L-06', from: 'GANTRY-1', to: 'TRX-01', type: 'dsrc' },
+    { id: 'L-07', from: 'SHELTER-1', to: 'GANTRY-1', type: 'power' },
+    { id: 'L-08', from: 'SHELTER-1', to: 'TSMC-1', type: 'power' },
+    { id: 'L-09', from: 'VR-02', to: 'VDC-2', type: 'ethernet' },
+    { id: 'L-10', from: 'TRX-02', to: 'MOXA-2', type: 'serial' },
+    { id: 'L-11', from: 'TRX-03', to: 'MOXA-2', type: 'serial' },
+    { id: 'L-12', from: 'MOXA-2', to: 'VDC-2', type: 'ethernet' },
+    { id: 'L-13', from: 'GANTRY-2', to: 'TRX-02', type: 'dsrc' },
+    { id: 'L-14', from: 'GANTRY-2', to: 'TRX-03', type: 'dsrc' },
+    { id: 'L-15', from: 'SHELTER-2', to: 'GANTRY-2', type: 'power' },
+    // South Plaza backhauls its vehicle data to the North Plaza controller
+    { id: 'L-16', from: 'VDC-2', to: 'TSMC-1', type: 'ethernet' }
+  ];
+
+  const scenarios = [
+    {
+      id: 'SC-001',
+      name: 'Time Sync Drift Scenario',
+      duration: 120,
+      events: [
+        { time: 0, device: 'MOXA-1', type: 'TIME_SYNC_DRIFT', value: 0.05, severity: 'MEDIUM' },
+        { time: 30, device: 'VDC-1', type: 'SYNC_ERROR', value: 0.05, severity: 'MEDIUM' },
+        { time: 45, device: 'VR-01', type: 'FRAME_LOST', severity: 'HIGH' },
+        { time: 60, device: 'VDC-1', type: 'RECOVERY', severity: 'LOW' },
+        { time: 90, device: 'MOXA-1', type: 'SYNC_RESTORED', severity: 'LOW' }
+      ]
+    },
+    {
+      id: 'SC-002',
+      name: 'TRX Message Flood',
+      duration: 180,
+      events: [
+        // Overflow, rate limiting and recovery come from the TRX and VDC emulators
+        { time: 0, device: 'TRX-01', type: 'MESSAGE_FLOOD', value: 1000, severity: 'HIGH' },
+        { time: 40, device: 'TSMC-1', type: 'PROCESSING_DELAY', value: 2.5, severity: 'HIGH' }
+      ]
+    },
+    {
+      id: 'SC-003',
+      name: 'South Gantry Power Loss',
+      duration: 90,
+      events: [
+        // A selector instead of a device: every TRX mounted on GANTRY-2
+        { time: 10, selector: { gantry: 'GANTRY-2', type: 'TRX' }, type: 'DEVICE_FAILURE', value: 'gantry power lost', severity: 'CRITICAL' },
+        { time: 20, device: 'VDC-1', type: 'SYNC_ERROR', value: 0.02, severity: 'MEDIUM' },
+        { time: 60, selector: { gantry: 'GANTRY-2', type: 'TRX' }, type: 'RECOVERY', value: 'power restored', severity: 'LOW' }
+      ]
+    }
+  ];
+
+  const rules = [
+    {
+      id: 'R-001',
+      name: 'MOXA time sync drift degrades downstream VDC',
+      when: { device: 'MOXA-*', type: 'TIME_SYNC_DRIFT' },
+      then: { target: 'downstream', deviceType: 'VDC', delay: 2, type: 'UPSTREAM_SYNC_DRIFT', severity: 'MEDIUM', status: 'degraded' }
+    },
+    {
+      id: 'R-002',
+      name: 'TRX message flood backs up into TSMC',
+      when: { deviceType: 'TRX', type: 'MESSAGE_FLOOD' },
+      then: { target: 'downstream', deviceType: 'TSMC', delay: 3, type: 'QUEUE_BACKLOG', severity: 'HIGH' }
+    }
+  ];
+
+  const testCases = [
+    {
+      id: 'TC-001',
+      name: 'Time Sync Recovery Test',
+      suite: 'Component Tests',
+      scenario: 'SC-001',
+      assertions: [
+        { kind: 'status', device: 'VDC-1', status: 'normal', by: 60 },
+        { kind: 'event', device: 'MOXA-1', eventType: 'SYNC_RESTORED', before: 100 }
+      ]
+    },
+    {
+      id: 'TC-002',
+      name: 'Message Flood Handling',
+      suite: 'Integration Tests',
+      scenario: 'SC-002',
+      assertions: [
+        { kind: 'noEvent', severity: 'CRITICAL', after: 'RATE_LIMITING' }
+      ]
+    },
+    {
+      id: 'TC-003',
+      name: 'Device Failover Test',
+      suite: 'Component Tests',
+      scenario: 'SC-002',
+      assertions: [
+        { kind: 'status', device: 'VDC-1', status: 'alarm', by: 30 },
+        { kind: 'status', device: 'VDC-1', status: 'normal', by: 180 }
+      ]
+    },
+    {
+      id: 'TC-004',
+      name: 'Alarm Propagation Test',
+      suite: 'Integration Tests',
+      scenario: 'SC-002',
+      assertions: [
+        { kind: 'propagates', from: { device: 'TRX-01', status: 'degraded' }, to: { device: 'TSMC-1', status: 'degraded' }, within: 5 }
+      ]
+    },
+    {
+      id: 'TC-005',
+      name: 'Data Integrity Check',
+      suite: 'System Tests',
+      scenario: 'SC-001',
+      assertions: [
+        { kind: 'noEvent', device: 'VR-01', eventType: 'FRAME_LOST' }
+      ]
+    }
+  ];
+
+  return { sites, devices, links, rules, scenarios, testCases };
+};
@@ -1,86 +1,117 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { Play, Pause, SkipBack, SkipForward, Upload, Download, Plus, Settings, Activity, AlertCircle, CheckCircle, XCircle, Clock, Zap } from 'lucide-react';
-
-// Data types
-const DEVICE_TYPES = {
-  VR: { name: 'Video Recognition', color: '#3b82f6', icon: '📷' },
-  VDC: { name: 'Vehicle Data Collector', color: '#8b5cf6', icon: '🚗' },
-  TSMC: { name: 'Traffic Station Controller', color: '#ec4899', icon: '🎛️' },
-  TSC: { name: 'Traffic Signal Controller', color: '#f59e0b', icon: '🚦' },
-  MOXA: { name: 'Serial/IoT Gateway', color: '#10b981', icon: '🔌' },
-  TRX: { name: 'DSRC Transceiver', color: '#06b6d4', icon: '📡' },
-  Gantry: { name: 'Gantry System', color: '#6366f1', icon: '🏗️' },
-  Shelter: { name: 'Tech Shelter', color: '#64748b', icon: '🏠' }
-};
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Play, Pause, SkipBack, SkipForward, Upload, Download, Plus, Settings, Activity, CheckCircle, XCircle, Zap, Trash2, History, Radio, Star, GitCompare } from 'lucide-react';
+import { DEVICE_TYPES, LINK_TYPES, SEVERITY_COLORS, generateSeedData } from './roadside-data';
+import { createSimulation } from './simulation-engine';
+import { importLogFile } from './log-import';
+import ScenarioEditor from './scenario-editor';
+import { runBaselineCheck, runTestSuite, serializeTestSuite } from './test-runner';
+import { serializeRules } from './fault-rules';
+import TopologyEditor from './topology-editor';
+import DeviceForm from './device-form';
+import { serializeSiteConfig, parseSiteConfig } from './device-inventory';
+import { createWorkspaceStore, createBrowserAdapter } from './workspace-store';
+import { createSimulationRun, createTestRun, serializeRuns } from './run-records';
+import KpiDashboard from './kpi-dashboard';
+import { buildReport, getReportFormatters, getReportFormatter } from './report-formatters';
+import { createTelemetrySession, createWebSocketAdapter } from './live-telemetry';
+import ClockSyncView from './clock-sync-view';
+import EventLogView from './event-log-view';
+import SystemMap from './system-map';
+import DeviceInspector from './device-inspector';
+import FaultInjectionPanel from './fault-injection-panel';
+import { injectFault } from './fault-injection';
+import ChaosView from './chaos-view';
+import { diffRuns } from './run-diff';
+import RunDiffView from './run-diff-view';
+import { DEFAULT_SITE, GROUP_TYPES, nextSiteId, siteHierarchy, siteOf } from './site-hierarchy';
+import { downloadText } from './download';
 
-const SEVERITY_COLORS = {
-  LOW: 'bg-blue-100 text-blue-800',
-  MEDIUM: 'bg-yellow-100 text-yellow-800',
-  HIGH: 'bg-orange-100 text-orange-800',
-  CRITICAL: 'bg-red-100 text-red-800'
-};
+const workspaceStore = createWorkspaceStore(createBrowserAdapter());
 
-// Sample seed data
-const generateSeedData = () => {
-  const devices = [
-    { id: 'VR-01', type: 'VR', model: 'VRX-200', status: 'normal', location: { x: 100, y: 200 } },
-    { id: 'VDC-1', type: 'VDC', model: 'VDC-500', status: 'normal', location: { x: 300, y: 200 } },
-    { id: 'TSMC-1', type: 'TSMC', model: 'TSMC-100', status: 'normal', location: { x: 500, y: 200 } },
-    { id: 'MOXA-1', type: 'MOXA', model: 'MOXA-G1', status: 'normal', location: { x: 200, y: 350 } },
-    { id: 'TRX-01', type: 'TRX', model: 'TRX-300', status: 'normal', location: { x: 400, y: 350 } },
-    { id: 'GANTRY-1', type: 'Gantry', model: 'GNT-XL', status: 'normal', location: { x: 300, y: 100 } }
-  ];
-
-  const scenarios = [
-    {
-      id: 'SC-001',
-      name: 'Time Sync Drift Scenario',
-      duration: 120,
-      events: [
-        { time: 0, device: 'MOXA-1', type: 'TIME_SYNC_DRIFT', value: 0.05, severity: 'MEDIUM' },
-        { time: 30, device: 'VDC-1', type: 'SYNC_ERROR', value: 0.05, severity: 'MEDIUM' },
-        { time: 45, device: 'VR-01', type: 'FRAME_LOST', severity: 'HIGH' },
-        { time: 60, device: 'VDC-1', type: 'RECOVERY', severity: 'LOW' },
-        { time: 90, device: 'MOXA-1', type: 'SYNC_RESTORED', severity: 'LOW' }
-      ]
-    },
-    {
-      id: 'SC-002',
-      name: 'TRX Message Flood',
-      duration: 180,
-      events: [
-        { time: 0, device: 'TRX-01', type: 'MESSAGE_FLOOD', value: 1000, severity: 'HIGH' },
-        { time: 20, device: 'VDC-1', type: 'BUFFER_OVERFLOW', severity: 'CRITICAL' },
-        { time: 40, device: 'TSMC-1', type: 'PROCESSING_DELAY', value: 2.5, severity: 'HIGH' },
-        { time: 90, device: 'TRX-01', type: 'RATE_LIMITING', severity: 'MEDIUM' },
-        { time: 120, device: 'VDC-1', type: 'RECOVERY', severity: 'LOW' }
-      ]
-    }
-  ];
-
-  return { devices, scenarios };
-};
+// The session being recorded plays as this scenario until it is saved
+const LIVE_DRAFT = { id: 'LIVE', name: 'Live feed' };
 
 const RoadsideTestPlayground = () => {
   const [activeTab, setActiveTab] = useState('inventory');
+  const [sites, setSites] = useState([DEFAULT_SITE]);
+  // 'all' or the ID of the one site the inventory and System Map show
+  const [siteFilter, setSiteFilter] = useState('all');
   const [devices, setDevices] = useState([]);
+  const [links, setLinks] = useState([]);
+  const [rules, setRules] = useState([]);
   const [scenarios, setScenarios] = useState([]);
   const [selectedScenario, setSelectedScenario] = useState(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [playbackSpeed, setPlaybackSpeed] = useState(1);
-  const [logs, setLogs] = useState([]);
+  const [testCases, setTestCases] = useState([]);
   const [testResults, setTestResults] = useState([]);
-  const canvasRef = useRef(null);
+  const [importResults, setImportResults] = useState([]);
+  const [workspaceLoaded, setWorkspaceLoaded] = useState(false);
+  const [storageError, setStorageError] = useState(null);
+  // Set when the stored workspace could not be read; nothing is saved over it until reset
+  const [loadError, setLoadError] = useState(null);
+  const [runs, setRuns] = useState([]);
+  const [openedRun, setOpenedRun] = useState(null);
+  // Golden baseline run per scenario, and the runs picked for a diff (baseline first)
+  const [baselines, setBaselines] = useState({});
+  const [diffSelection, setDiffSelection] = useState([]);
+  const [runDiff, setRunDiff] = useState(null);
+  const [reportFormat, setReportFormat] = useState('json');
+  const [editingDevice, setEditingDevice] = useState(null);
+  const [siteError, setSiteError] = useState(null);
+  const [liveUrl, setLiveUrl] = useState('ws://localhost:8787');
+  const [liveFeed, setLiveFeed] = useState(null);
+  const [correlatedDevices, setCorrelatedDevices] = useState(null);
+  const [inspectedDeviceId, setInspectedDeviceId] = useState(null);
+  const fileInputRef = useRef(null);
+  const siteInputRef = useRef(null);
   const animationRef = useRef(null);
+  const playbackStartedRef = useRef(false);
+  const liveRef = useRef(null);
+
+  const showWorkspace = ({ sites, devices, links, rules, scenarios, testCases }) => {
+    setSites(sites);
+    setDevices(devices);
+    setLinks(links);
+    setRules(rules);
+    setScenarios(scenarios);
+    setTestCases(testCases);
+  };
 
-  // Initialize with seed data
+  // Initialize with the stored workspace, or seed data when nothing is stored.
+  // A workspace that fails to load is left alone: the seed data is shown but
+  // not saved until the user resets.
   useEffect(() => {
-    const { devices: seedDevices, scenarios: seedScenarios } = generateSeedData();
-    setDevices(seedDevices);
-    setScenarios(seedScenarios);
+    const load = async () => {
+      try {
+        const workspace = await workspaceStore.loadWorkspace();
+        setRuns(await workspaceStore.listRuns());
+        setBaselines(await workspaceStore.listBaselines());
+        showWorkspace(workspace || generateSeedData());
+        setWorkspaceLoaded(true);
+      } catch (err) {
+        showWorkspace(generateSeedData());
+        setLoadError(`Could not load saved workspace: ${err.message}`);
+      }
+    };
+    load();
   }, []);
 
+  // Replaces the unreadable stored workspace with seed data and starts saving again
+  const resetWorkspace = () => {
+    showWorkspace(generateSeedData());
+    setLoadError(null);
+    setWorkspaceLoaded(true);
+  };
+
+  // Persist workspace changes
+  useEffect(() => {
+    if (!workspaceLoaded) return;
+    workspaceStore.saveWorkspace({ sites, devices, links, rules, scenarios, testCases })
+      .catch(err => setStorageError(`Could not save workspace: ${err.message}`));
+  }, [workspaceLoaded, sites, devices, links, rules, scenarios, testCases]);
+
   // Animation loop for simulator
   useEffect(() => {
     if (isPlaying && selectedScenario) {
@@ -102,123 +133,405 @@ const RoadsideTestPlayground = () => {
     };
   }, [isPlaying, playbackSpeed, selectedScenario]);
 
-  // Process events based on current time
-  useEffect(() => {
-    if (selectedScenario && currentTime > 0) {
-      const recentEvents = selectedScenario.events.filter(
-        e => e.time <= currentTime && e.time > currentTime - 0.5
-      );
-      
-      recentEvents.forEach(event => {
-        // Update device status
-        setDevices(prev => prev.map(d => 
-          d.id === event.device 
-            ? { ...d, status: event.severity === 'CRITICAL' ? 'alarm' : event.severity === 'HIGH' ? 'degraded' : 'normal' }
-            : d
-        ));
-
-        // Add log entry
-        const logEntry = {
-          timestamp: new Date().toISOString(),
-          device: event.device,
-          level: event.severity,
-          message: `${event.type}: ${event.value || 'Event triggered'}`,
-          time: currentTime.toFixed(1)
-        };
-        setLogs(prev => [logEntry, ...prev].slice(0, 100));
-      });
+  const recordRun = async (run) => {
+    try {
+      setRuns(await workspaceStore.saveRun(run));
+    } catch (err) {
+      setStorageError(`Could not save run: ${err.message}`);
     }
-  }, [currentTime, selectedScenario]);
+  };
 
-  // Canvas drawing
+  // A playback that reaches the end of its scenario is saved to the run history
   useEffect(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    
-    const ctx = canvas.getContext('2d');
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
-
-    // Draw connections
-    ctx.strokeStyle = '#cbd5e1';
-    ctx.lineWidth = 2;
-    devices.forEach((device, i) => {
-      devices.slice(i + 1).forEach(otherDevice => {
-        ctx.beginPath();
-        ctx.moveTo(device.location.x, device.location.y);
-        ctx.lineTo(otherDevice.location.x, otherDevice.location.y);
-        ctx.stroke();
-      });
-    });
+    if (isPlaying || !playbackStartedRef.current || !selectedScenario) return;
+    if (currentTime < selectedScenario.duration) return;
+    playbackStartedRef.current = false;
+    recordRun(createSimulationRun(selectedScenario, { sites, devices, links, rules }));
+  }, [isPlaying, currentTime, selectedScenario]);
 
-    // Draw devices
-    devices.forEach(device => {
-      const typeInfo = DEVICE_TYPES[device.type];
-      
-      // Device circle
-      ctx.beginPath();
-      ctx.arc(device.location.x, device.location.y, 30, 0, 2 * Math.PI);
-      ctx.fillStyle = device.status === 'alarm' ? '#ef4444' : 
-                      device.status === 'degraded' ? '#f59e0b' : typeInfo.color;
-      ctx.fill();
-      ctx.strokeStyle = '#fff';
-      ctx.lineWidth = 3;
-      ctx.stroke();
-
-      // Device label
-      ctx.fillStyle = '#fff';
-      ctx.font = '20px Arial';
-      ctx.textAlign = 'center';
-      ctx.fillText(typeInfo.icon, device.location.x, device.location.y + 7);
-      
-      ctx.fillStyle = '#1e293b';
-      ctx.font = 'bold 12px Arial';
-      ctx.fillText(device.id, device.location.x, device.location.y + 50);
-    });
-  }, [devices]);
+  // While the live feed is up, the map and log follow the session as it is recorded
+  useEffect(() => {
+    if (liveFeed?.status !== 'live') return;
+    const tick = setInterval(() => {
+      if (!liveRef.current) return;
+      const { session } = liveRef.current;
+      setSelectedScenario(session.toScenario(LIVE_DRAFT));
+      setCurrentTime(session.elapsed());
+      setLiveFeed(prev => prev && { ...prev, eventCount: session.eventCount(), issues: session.issues() });
+    }, 250);
+    return () => clearInterval(tick);
+  }, [liveFeed?.status]);
+
+  useEffect(() => () => liveRef.current?.disconnect(), []);
+
+  // Device and log state derived from the scenario at the current time
+  const simulation = useMemo(
+    () => createSimulation(selectedScenario, devices, { links, rules }),
+    [selectedScenario, devices, links, rules]
+  );
+  const { devices: simulatedDevices, links: simulatedLinks, logs, changes } = simulation.stateAt(currentTime);
+  const inspectedDevice = simulatedDevices.find(d => d.id === inspectedDeviceId);
+
+  // The whole site plays together; the site filter only narrows what is shown
+  const inSiteFilter = (device) => siteFilter === 'all' || siteOf(device) === siteFilter;
+  const mapDevices = simulatedDevices.filter(inSiteFilter);
+  const mapDeviceIds = new Set(mapDevices.map(d => d.id));
+  const mapLinks = simulatedLinks.filter(l => mapDeviceIds.has(l.from) && mapDeviceIds.has(l.to));
 
   const handlePlayPause = () => {
-    if (!selectedScenario) return;
+    if (!selectedScenario || liveFeed) return;
     if (currentTime >= selectedScenario.duration) {
       setCurrentTime(0);
     }
+    if (!isPlaying) playbackStartedRef.current = true;
     setIsPlaying(!isPlaying);
   };
 
   const handleReset = () => {
     setIsPlaying(false);
     setCurrentTime(0);
-    setLogs([]);
-    const { devices: seedDevices } = generateSeedData();
-    setDevices(seedDevices);
+    playbackStartedRef.current = false;
+  };
+
+  const handleStepForward = () => {
+    const nextTime = simulation.nextEventTime(currentTime);
+    if (nextTime === null) return;
+    setIsPlaying(false);
+    setCurrentTime(nextTime);
+  };
+
+  const startLiveFeed = () => {
+    const session = createTelemetrySession(devices);
+    setIsPlaying(false);
+    playbackStartedRef.current = false;
+    setSelectedScenario(session.toScenario(LIVE_DRAFT));
+    setCurrentTime(0);
+    setLiveFeed({ status: 'connecting', error: null, eventCount: 0, issues: [] });
+    const disconnect = createWebSocketAdapter(liveUrl).connect({
+      onMessage: (topic, payload) => session.receive(topic, payload),
+      onStatus: (status, error) => setLiveFeed(prev => prev && { ...prev, status, error: error || null })
+    });
+    liveRef.current = { session, disconnect };
+  };
+
+  // The recorded session is kept as a scenario and in the run history
+  const stopLiveFeed = () => {
+    const { session, disconnect } = liveRef.current;
+    disconnect();
+    liveRef.current = null;
+    setLiveFeed(null);
+    if (session.eventCount() === 0) {
+      setSelectedScenario(null);
+      setCurrentTime(0);
+      return;
+    }
+
+    let seq = scenarios.length;
+    let id;
+    do { id = `LIVE-${String(++seq).padStart(3, '0')}`; } while (scenarios.some(s => s.id === id));
+    const scenario = session.toScenario({ id, name: `Live session ${new Date(session.startedAt).toLocaleString()}` });
+    setScenarios(prev => [...prev, scenario]);
+    setSelectedScenario(scenario);
+    setCurrentTime(scenario.duration);
+    recordRun(createSimulationRun(scenario, { sites, devices, links, rules }, new Date(session.startedAt)));
+  };
+
+  // Injected faults go into a working copy of the playing scenario, so the run
+  // recorded at the end of playback includes them
+  const handleInjectFault = (event) => {
+    setSelectedScenario(prev => injectFault(prev, event));
+  };
+
+  const saveInjectedScenario = () => {
+    let seq = scenarios.length;
+    let id;
+    do { id = `SC-${String(++seq).padStart(3, '0')}`; } while (scenarios.some(s => s.id === id));
+    const scenario = { ...selectedScenario, id, name: `${selectedScenario.name} (injected faults)` };
+    setScenarios(prev => [...prev, scenario]);
+    setSelectedScenario(scenario);
+  };
+
+  // A generated scenario's ID comes from its seed, so saving it twice keeps one copy
+  const saveGeneratedScenario = (scenario) => {
+    setScenarios(prev => (prev.some(s => s.id === scenario.id) ? prev : [...prev, scenario]));
+  };
+
+  const handleImportLogs = async (e) => {
+    const files = [...(e.target.files || [])];
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    const existing = new Set(scenarios.map(s => s.id));
+    let seq = scenarios.length;
+    const nextId = () => {
+      let id;
+      do { id = `IMP-${String(++seq).padStart(3, '0')}`; } while (existing.has(id));
+      existing.add(id);
+      return id;
+    };
+
+    const results = await Promise.all(files.map(async file => {
+      const { scenario, issues } = importLogFile(file.name, await file.text(), devices, { id: nextId() });
+      return { file: file.name, scenario, issues };
+    }));
+    const imported = results.filter(r => r.scenario.events.length > 0).map(r => r.scenario);
+
+    setImportResults(results);
+    setScenarios(prev => [...prev, ...imported]);
+    if (imported.length > 0) {
+      setSelectedScenario(imported[0]);
+      handleReset();
+    }
+    setActiveTab('simulator');
+  };
+
+  const handleSaveScenario = (scenario, originalId) => {
+    setScenarios(prev => prev.some(s => s.id === originalId)
+      ? prev.map(s => (s.id === originalId ? scenario : s))
+      : [...prev, scenario]);
+    if (originalId && selectedScenario?.id === originalId) {
+      setSelectedScenario(scenario);
+      handleReset();
+    }
+  };
+
+  // Scenario files replace scenarios with the same ID and add the rest
+  const handleImportScenarios = (imported) => {
+    setScenarios(prev => [
+      ...prev.map(s => imported.find(i => i.id === s.id) || s),
+      ...imported.filter(i => !prev.some(s => s.id === i.id))
+    ]);
+  };
+
+  // A gantry or shelter moved to another site leaves its devices behind, unmounted
+  const handleSaveDevice = (device, originalId) => {
+    const moved = GROUP_TYPES.includes(device.type) && originalId;
+    setDevices(prev => (originalId
+      ? prev.map(d => (d.id === originalId ? device : d))
+      : [...prev, device]
+    ).map(d => (moved && d.parent === device.id && siteOf(d) !== siteOf(device) ? { ...d, parent: null, lane: undefined } : d)));
+    setEditingDevice(null);
+  };
+
+  // Dragging a device on the System Map saves its new position with the site
+  const handleMoveDevice = (id, location) => {
+    setDevices(prev => prev.map(d => (d.id === id ? { ...d, location } : d)));
+  };
+
+  // Links to a deleted device go with it, and devices mounted in it are left unmounted
+  const handleDeleteDevice = (id) => {
+    setDevices(prev => prev.filter(d => d.id !== id).map(d => (d.parent === id ? { ...d, parent: null, lane: undefined } : d)));
+    setLinks(prev => prev.filter(l => l.from !== id && l.to !== id));
+    if (editingDevice?.id === id) setEditingDevice(null);
+  };
+
+  const addSite = () => {
+    const id = nextSiteId(sites);
+    setSites(prev => [...prev, { id, name: `Site ${prev.length + 1}` }]);
+    setSiteFilter(id);
+  };
+
+  const renameSite = (id, name) => {
+    setSites(prev => prev.map(s => (s.id === id ? { ...s, name } : s)));
+  };
+
+  // Only empty sites can go, and there is always at least one
+  const deleteSite = (id) => {
+    setSites(prev => prev.filter(s => s.id !== id));
+    setSiteFilter('all');
+  };
+
+  const exportSiteConfig = () => {
+    downloadText('site-config.json', serializeSiteConfig({ sites, devices, links }), 'application/json');
+  };
+
+  const handleImportSiteConfig = async (e) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const site = parseSiteConfig(await file.text());
+      setSites(site.sites);
+      setSiteFilter('all');
+      setDevices(site.devices);
+      setLinks(site.links);
+      setSiteError(null);
+    } catch (err) {
+      setSiteError(err.message);
+    }
   };
 
-  const runAutomatedTests = () => {
+  // Test and rule files feed the headless runner (rtp-cli.ts)
+  const exportTestSuite = () => {
+    downloadText('tests.json', serializeTestSuite(testCases), 'application/json');
+  };
+
+  const exportRules = () => {
+    downloadText('rules.json', serializeRules(rules), 'application/json');
+  };
+
+  // Golden baselines are checked alongside the test cases
+  const runAutomatedTests = async () => {
+    const workspace = { sites, devices, links, rules };
+    let golden = [];
+    try {
+      golden = (await Promise.all(Object.values(baselines).map(workspaceStore.loadRun))).filter(Boolean);
+    } catch (err) {
+      setStorageError(`Could not load golden baselines: ${err.message}`);
+    }
     const results = [
-      { id: 'TC-001', name: 'Time Sync Recovery Test', status: 'passed', duration: 2.3 },
-      { id: 'TC-002', name: 'Message Flood Handling', status: 'passed', duration: 3.1 },
-      { id: 'TC-003', name: 'Device Failover Test', status: 'passed', duration: 1.8 },
-      { id: 'TC-004', name: 'Alarm Propagation Test', status: 'passed', duration: 2.5 },
-      { id: 'TC-005', name: 'Data Integrity Check', status: 'failed', duration: 4.2 }
+      ...runTestSuite(testCases, scenarios, workspace),
+      ...golden.map(baseline => runBaselineCheck(baseline, scenarios, workspace))
     ];
     setTestResults(results);
+    setOpenedRun(null);
+    recordRun(createTestRun(results, { sites, devices }));
     setActiveTab('reports');
   };
 
-  const exportReport = () => {
-    const report = {
-      timestamp: new Date().toISOString(),
-      scenario: selectedScenario?.name || 'N/A',
-      testResults,
-      logs: logs.slice(0, 50),
-      devices: devices.map(d => ({ id: d.id, type: d.type, status: d.status }))
+  const openRun = async (id) => {
+    try {
+      const run = await workspaceStore.loadRun(id);
+      if (!run) throw new Error(`Run ${id} is no longer stored`);
+      setOpenedRun(run);
+      setActiveTab('reports');
+    } catch (err) {
+      setStorageError(err.message);
+    }
+  };
+
+  const deleteRun = async (id) => {
+    try {
+      setRuns(await workspaceStore.deleteRun(id));
+      setBaselines(await workspaceStore.listBaselines());
+      setDiffSelection(prev => prev.filter(i => i !== id));
+      if (openedRun?.id === id) setOpenedRun(null);
+    } catch (err) {
+      setStorageError(`Could not delete run: ${err.message}`);
+    }
+  };
+
+  // Marking the scenario's current golden run again clears it
+  const toggleBaseline = async (summary) => {
+    const scenarioId = summary.scenario.id;
+    try {
+      setBaselines(await workspaceStore.setBaseline(scenarioId, baselines[scenarioId] === summary.id ? null : summary.id));
+    } catch (err) {
+      setStorageError(`Could not save golden baseline: ${err.message}`);
+    }
+  };
+
+  // A third pick replaces the candidate
+  const toggleDiffSelection = (id) => {
+    setDiffSelection(prev => (prev.includes(id) ? prev.filter(i => i !== id) : [...prev.slice(0, 1), id]));
+  };
+
+  const compareRuns = async (baselineId, candidateId) => {
+    try {
+      const [baseline, candidate] = await Promise.all([workspaceStore.loadRun(baselineId), workspaceStore.loadRun(candidateId)]);
+      if (!baseline || !candidate) throw new Error('One of the runs is no longer stored');
+      setRunDiff(diffRuns(baseline, candidate));
+    } catch (err) {
+      setStorageError(err.message);
+    }
+  };
+
+  const exportRun = async (id) => {
+    try {
+      const run = await workspaceStore.loadRun(id);
+      if (!run) throw new Error(`Run ${id} is no longer stored`);
+      downloadText(`${id}.json`, serializeRuns([run]), 'application/json');
+    } catch (err) {
+      setStorageError(err.message);
+    }
+  };
+
+  // The Reports tab shows either a reopened run or the current session
+  const reportRun = openedRun || {
+    id: null,
+    scenario: selectedScenario,
+    sites,
+    devices: simulatedDevices,
+    links: simulatedLinks,
+    logs,
+    changes,
+    testResults
+  };
+  const reportUntil = openedRun ? openedRun.scenario?.duration || 0 : selectedScenario ? currentTime : 0;
+
+  const testSuites = [...new Set(testCases.map(t => t.suite))].map(suite => {
+    const cases = testCases.filter(t => t.suite === suite);
+    const results = testResults.filter(r => r.suite === suite);
+    return {
+      name: suite,
+      total: cases.length,
+      run: results.length,
+      passed: results.filter(r => r.status === 'passed').length
     };
-    
-    const blob = new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `test-report-${Date.now()}.json`;
-    a.click();
+  });
+
+  const exportReport = () => {
+    const formatter = getReportFormatter(reportFormat);
+    downloadText(`test-report-${Date.now()}.${formatter.extension}`, formatter.format(buildReport(reportRun, reportUntil)), formatter.mimeType);
+  };
+
+  // Inventory card for one device, showing its status at the current playback time
+  const renderDeviceCard = (device) => {
+    const typeInfo = DEVICE_TYPES[device.type];
+    return (
+      <div key={device.id} className="bg-slate-800/50 backdrop-blur-sm rounded-xl p-6 border border-slate-700 hover:border-cyan-500/50 transition-all">
+        <div className="flex items-start justify-between mb-4">
+          <div className="flex items-center gap-3">
+            <div className="text-3xl">{typeInfo.icon}</div>
+            <div>
+              <h3 className="font-bold text-lg">{device.id}</h3>
+              <p className="text-sm text-slate-400">{typeInfo.name}</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <div className={`px-2 py-1 rounded text-xs font-medium ${
+              device.status === 'alarm' ? 'bg-red-900/50 text-red-300' :
+              device.status === 'degraded' ? 'bg-yellow-900/50 text-yellow-300' :
+              'bg-green-900/50 text-green-300'
+            }`}>
+              {device.status}
+            </div>
+            <button
+              onClick={() => setEditingDevice(devices.find(d => d.id === device.id))}
+              title="Edit device"
+              className="text-slate-400 hover:text-white"
+            >
+              <Settings className="w-4 h-4" />
+            </button>
+            <button onClick={() => handleDeleteDevice(device.id)} title="Delete device" className="text-slate-400 hover:text-red-400">
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+        <div className="space-y-2 text-sm">
+          <div className="flex justify-between">
+            <span className="text-slate-400">Model:</span>
+            <span className="font-medium">{device.model}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-slate-400">Type:</span>
+            <span className="font-medium">{device.type}</span>
+          </div>
+          {device.lane && (
+            <div className="flex justify-between">
+              <span className="text-slate-400">Lane:</span>
+              <span className="font-medium">{device.lane}</span>
+            </div>
+          )}
+          {Object.keys(typeInfo.config).map(key => (
+            <div key={key} className="flex justify-between">
+              <span className="text-slate-400">{typeInfo.config[key].label}:</span>
+              <span className="font-medium">{device.config?.[key] ?? '—'}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
   };
 
   return (
@@ -235,10 +548,28 @@ const RoadsideTestPlayground = () => {
               </div>
             </div>
             <div className="flex gap-2">
-              <button className="px-4 py-2 bg-cyan-600 hover:bg-cyan-700 rounded-lg flex items-center gap-2 transition-colors">
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                accept=".csv,.jsonl,.ndjson,.json,.log,.txt"
+                onChange={handleImportLogs}
+                className="hidden"
+              />
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="px-4 py-2 bg-cyan-600 hover:bg-cyan-700 rounded-lg flex items-center gap-2 transition-colors"
+              >
                 <Upload className="w-4 h-4" />
                 Import Logs
               </button>
+              <select
+                value={reportFormat}
+                onChange={(e) => setReportFormat(e.target.value)}
+                className="px-3 py-2 bg-slate-700 rounded-lg text-sm"
+              >
+                {getReportFormatters().map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+              </select>
               <button onClick={exportReport} className="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg flex items-center gap-2 transition-colors">
                 <Download className="w-4 h-4" />
                 Export Report
@@ -252,7 +583,7 @@ const RoadsideTestPlayground = () => {
       <nav className="bg-slate-800/30 border-b border-slate-700">
         <div className="max-w-7xl mx-auto px-6">
           <div className="flex gap-1">
-            {['inventory', 'simulator', 'tests', 'reports'].map(tab => (
+            {['inventory', 'simulator', 'editor', 'tests', 'chaos', 'time sync', 'reports', 'history'].map(tab => (
               <button
                 key={tab}
                 onClick={() => setActiveTab(tab)}
@@ -265,56 +596,111 @@ const RoadsideTestPlayground = () => {
                 {tab}
               </button>
             ))}
+            {sites.length > 1 && (
+              <select
+                value={siteFilter}
+                onChange={(e) => setSiteFilter(e.target.value)}
+                title="Site shown in the inventory and System Map"
+                className="ml-auto my-2 px-3 py-1 bg-slate-700 rounded-lg text-sm"
+              >
+                <option value="all">All sites</option>
+                {sites.map(site => <option key={site.id} value={site.id}>{site.name}</option>)}
+              </select>
+            )}
           </div>
         </div>
       </nav>
 
       <main className="max-w-7xl mx-auto px-6 py-8">
+        {loadError && (
+          <div className="mb-6 p-4 rounded-lg border border-red-700 bg-red-900/30 text-sm text-red-300 flex justify-between items-center gap-4">
+            <span>{loadError}. Showing seed data; changes are not saved until the stored workspace is reset.</span>
+            <button onClick={resetWorkspace} className="shrink-0 px-3 py-1 bg-red-700 hover:bg-red-600 rounded text-white">
+              Reset to seed data
+            </button>
+          </div>
+        )}
+        {storageError && (
+          <div className="mb-6 p-4 rounded-lg border border-red-700 bg-red-900/30 text-sm text-red-300 flex justify-between">
+            <span>{storageError}</span>
+            <button onClick={() => setStorageError(null)} className="text-red-200 hover:text-white">Dismiss</button>
+          </div>
+        )}
+
         {/* Inventory Tab */}
         {activeTab === 'inventory' && (
           <div className="space-y-6">
             <div className="flex justify-between items-center">
               <h2 className="text-xl font-bold">Device Inventory</h2>
-              <button className="px-4 py-2 bg-cyan-600 hover:bg-cyan-700 rounded-lg flex items-center gap-2">
-                <Plus className="w-4 h-4" />
-                Add Device
-              </button>
+              <div className="flex gap-2">
+                <input ref={siteInputRef} type="file" accept=".json" onChange={handleImportSiteConfig} className="hidden" />
+                <button onClick={() => siteInputRef.current?.click()} className="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg flex items-center gap-2">
+                  <Upload className="w-4 h-4" />
+                  Import Site
+                </button>
+                <button onClick={exportSiteConfig} className="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg flex items-center gap-2">
+                  <Download className="w-4 h-4" />
+                  Export Site
+                </button>
+                <button onClick={addSite} className="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg flex items-center gap-2">
+                  <Plus className="w-4 h-4" />
+                  Add Site
+                </button>
+                <button onClick={() => setEditingDevice({})} className="px-4 py-2 bg-cyan-600 hover:bg-cyan-700 rounded-lg flex items-center gap-2">
+                  <Plus className="w-4 h-4" />
+                  Add Device
+                </button>
+              </div>
             </div>
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-              {devices.map(device => {
-                const typeInfo = DEVICE_TYPES[device.type];
-                return (
-                  <div key={device.id} className="bg-slate-800/50 backdrop-blur-sm rounded-xl p-6 border border-slate-700 hover:border-cyan-500/50 transition-all">
-                    <div className="flex items-start justify-between mb-4">
-                      <div className="flex items-center gap-3">
-                        <div className="text-3xl">{typeInfo.icon}</div>
-                        <div>
-                          <h3 className="font-bold text-lg">{device.id}</h3>
-                          <p className="text-sm text-slate-400">{typeInfo.name}</p>
-                        </div>
-                      </div>
-                      <div className={`px-2 py-1 rounded text-xs font-medium ${
-                        device.status === 'alarm' ? 'bg-red-900/50 text-red-300' :
-                        device.status === 'degraded' ? 'bg-yellow-900/50 text-yellow-300' :
-                        'bg-green-900/50 text-green-300'
-                      }`}>
-                        {device.status}
-                      </div>
+            {siteError && <p className="text-sm text-red-300">{siteError}</p>}
+            {editingDevice && (
+              <div key={editingDevice.id || 'new'}>
+                <DeviceForm
+                  device={editingDevice.id ? editingDevice : null}
+                  devices={devices}
+                  sites={sites}
+                  defaultSite={siteFilter === 'all' ? sites[0].id : siteFilter}
+                  onSave={handleSaveDevice}
+                  onCancel={() => setEditingDevice(null)}
+                />
+              </div>
+            )}
+            {siteHierarchy(sites.filter(site => siteFilter === 'all' || site.id === siteFilter), simulatedDevices).map(({ site, groups, ungrouped }) => (
+              <div key={site.id} className="space-y-4">
+                <div className="flex items-center gap-3">
+                  <input
+                    value={site.name}
+                    onChange={(e) => renameSite(site.id, e.target.value)}
+                    title="Rename site"
+                    className="text-lg font-bold bg-transparent border-b border-transparent hover:border-slate-600 focus:border-cyan-500 outline-none"
+                  />
+                  <span className="text-sm text-slate-500">{site.id}</span>
+                  {sites.length > 1 && groups.length === 0 && ungrouped.length === 0 && (
+                    <button onClick={() => deleteSite(site.id)} title="Delete site" className="text-slate-400 hover:text-red-400">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+                {groups.map(({ group, devices: mounted }) => (
+                  <div key={group.id} className="pl-4 border-l-2 border-slate-700 space-y-2">
+                    <h4 className="text-sm text-slate-400">{DEVICE_TYPES[group.type].icon} {group.id} · {mounted.length} mounted</h4>
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                      {[group, ...mounted].map(renderDeviceCard)}
                     </div>
-                    <div className="space-y-2 text-sm">
-                      <div className="flex justify-between">
-                        <span className="text-slate-400">Model:</span>
-                        <span className="font-medium">{device.model}</span>
-                      </div>
-                      <div className="flex justify-between">
-                        <span className="text-slate-400">Type:</span>
-                        <span className="font-medium">{device.type}</span>
-                      </div>
+                  </div>
+                ))}
+                {ungrouped.length > 0 && (
+                  <div className="pl-4 border-l-2 border-slate-700 space-y-2">
+                    {groups.length > 0 && <h4 className="text-sm text-slate-400">Not mounted</h4>}
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                      {ungrouped.map(renderDeviceCard)}
                     </div>
                   </div>
-                );
-              })}
-            </div>
+                )}
+                {groups.length === 0 && ungrouped.length === 0 && <p className="text-sm text-slate-500">No devices at this site yet.</p>}
+              </div>
+            ))}
+            <TopologyEditor devices={devices} links={links} onChange={setLinks} />
           </div>
         )}
 
@@ -329,6 +715,7 @@ const RoadsideTestPlayground = () => {
                   <div
                     key={scenario.id}
                     onClick={() => {
+                      if (liveFeed) return;
                       setSelectedScenario(scenario);
                       handleReset();
                     }}
@@ -341,24 +728,163 @@ const RoadsideTestPlayground = () => {
                     <h3 className="font-bold mb-1">{scenario.name}</h3>
                     <p className="text-sm text-slate-400">Duration: {scenario.duration}s</p>
                     <p className="text-sm text-slate-400">{scenario.events.length} events</p>
+                    {scenario.source && (
+                      <p className="text-xs text-cyan-400 mt-1">
+                        {scenario.source.format === 'live' ? 'Recorded live session' : `Imported ${scenario.source.format} log`}
+                      </p>
+                    )}
                   </div>
                 ))}
+
+                <div className="p-4 rounded-lg border border-slate-700 bg-slate-800/50 space-y-2">
+                  <div className="flex justify-between items-center">
+                    <h3 className="font-bold flex items-center gap-2">
+                      <Radio className="w-4 h-4" />
+                      Live Feed
+                    </h3>
+                    {liveFeed && (
+                      <span className={`text-xs px-2 py-0.5 rounded ${liveFeed.status === 'live' ? 'bg-green-600' : liveFeed.status === 'error' ? 'bg-red-600' : 'bg-slate-600'}`}>
+                        {liveFeed.status}
+                      </span>
+                    )}
+                  </div>
+                  <input
+                    value={liveUrl}
+                    disabled={!!liveFeed}
+                    onChange={(e) => setLiveUrl(e.target.value.trim())}
+                    placeholder="ws://host:port"
+                    className="w-full px-3 py-2 bg-slate-900 rounded-lg text-sm font-mono disabled:opacity-50"
+                  />
+                  {liveFeed ? (
+                    <button onClick={stopLiveFeed} className="w-full px-3 py-2 bg-red-600 hover:bg-red-700 rounded-lg text-sm">
+                      Stop &amp; Save Session
+                    </button>
+                  ) : (
+                    <button
+                      onClick={startLiveFeed}
+                      disabled={!liveUrl || devices.length === 0}
+                      className="w-full px-3 py-2 bg-cyan-600 hover:bg-cyan-700 rounded-lg text-sm disabled:opacity-50"
+                    >
+                      Connect
+                    </button>
+                  )}
+                  {liveFeed && (
+                    <p className="text-sm text-slate-400">
+                      {liveFeed.eventCount} events recorded, {liveFeed.issues.length} messages rejected
+                    </p>
+                  )}
+                  {liveFeed?.error && <p className="text-sm text-red-300">{liveFeed.error}</p>}
+                  {liveFeed?.issues.length > 0 && (
+                    <ul className="max-h-24 overflow-y-auto text-xs text-orange-300 font-mono">
+                      {liveFeed.issues.slice(-5).map((issue, idx) => (
+                        <li key={idx}>{issue.time.toFixed(1)}s {issue.message}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+
+                {selectedScenario && !liveFeed && (
+                  <FaultInjectionPanel
+                    scenario={selectedScenario}
+                    devices={devices}
+                    links={links}
+                    currentTime={currentTime}
+                    onInject={handleInjectFault}
+                    onSaveAsScenario={scenarios.includes(selectedScenario) ? null : saveInjectedScenario}
+                  />
+                )}
+
+                {rules.length > 0 && (
+                  <div className="p-4 rounded-lg border border-slate-700 bg-slate-800/50 space-y-2">
+                    <div className="flex justify-between items-center">
+                      <h3 className="font-bold">Fault Rules</h3>
+                      <button onClick={exportRules} className="text-slate-400 hover:text-white" title="Export rules">
+                        <Download className="w-4 h-4" />
+                      </button>
+                    </div>
+                    {rules.map(rule => (
+                      <div key={rule.id} className="text-sm">
+                        <p className="font-medium">{rule.id} {rule.name}</p>
+                        <p className="text-xs text-slate-400 font-mono">
+                          {rule.when.device || rule.when.deviceType || '*'} {rule.when.type || ''} → {rule.then.target} {rule.then.deviceType || ''} {rule.then.type} +{rule.then.delay || 0}s
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {importResults.length > 0 && (
+                  <div className="p-4 rounded-lg border border-slate-700 bg-slate-800/50 space-y-3">
+                    <h3 className="font-bold">Import Results</h3>
+                    {importResults.map(result => (
+                      <div key={result.scenario.id} className="text-sm">
+                        <p className="font-medium">{result.file}</p>
+                        <p className="text-slate-400">
+                          {result.scenario.events.length} events, {result.issues.length} malformed lines
+                        </p>
+                        {result.issues.length > 0 && (
+                          <ul className="mt-1 max-h-32 overflow-y-auto text-xs text-orange-300 font-mono">
+                            {result.issues.map(issue => (
+                              <li key={issue.line}>Line {issue.line}: {issue.message}</li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
 
               {/* Visualization */}
               <div className="col-span-2 space-y-4">
                 <div className="bg-slate-800/50 rounded-xl p-6 border border-slate-700">
                   <h2 className="text-xl font-bold mb-4">System Map</h2>
-                  <canvas
-                    ref={canvasRef}
-                    width={600}
-                    height={500}
-                    className="w-full bg-slate-900/50 rounded-lg"
-                  />
+                  {/* Remounted per site filter, so the map fits the devices it shows */}
+                  <div key={siteFilter}>
+                    <SystemMap
+                      devices={mapDevices}
+                      links={mapLinks}
+                      sites={siteFilter === 'all' && sites.length > 1 ? sites : null}
+                      highlighted={correlatedDevices}
+                      selectedId={inspectedDeviceId}
+                      onSelect={setInspectedDeviceId}
+                      onMove={handleMoveDevice}
+                    />
+                  </div>
+                  <div className="flex gap-4 mt-3 text-xs text-slate-400">
+                    {Object.entries(LINK_TYPES).map(([key, info]) => (
+                      <span key={key} className="flex items-center gap-1">
+                        <span className="inline-block w-4 h-0.5" style={{ backgroundColor: info.color }} />
+                        {info.name}
+                      </span>
+                    ))}
+                    <span className="flex items-center gap-1">
+                      <span className="inline-block w-4 h-0.5 bg-red-500" />
+                      Link down
+                    </span>
+                  </div>
                 </div>
 
+                {inspectedDevice && (
+                  <DeviceInspector
+                    device={inspectedDevice}
+                    initialStatus={devices.find(d => d.id === inspectedDevice.id).status}
+                    logs={logs}
+                    changes={simulation.statusChanges()}
+                    duration={simulation.duration}
+                    currentTime={currentTime}
+                    onClose={() => setInspectedDeviceId(null)}
+                  />
+                )}
+
                 {/* Playback Controls */}
-                {selectedScenario && (
+                {liveFeed && (
+                  <div className="bg-slate-800/50 rounded-xl p-6 border border-slate-700 flex items-center gap-3 text-sm">
+                    <span className={`w-3 h-3 rounded-full ${liveFeed.status === 'live' ? 'bg-red-500 animate-pulse' : 'bg-slate-500'}`} />
+                    Recording live feed · {currentTime.toFixed(1)}s
+                  </div>
+                )}
+                {selectedScenario && !liveFeed && (
                   <div className="bg-slate-800/50 rounded-xl p-6 border border-slate-700">
                     <div className="flex items-center gap-4 mb-4">
                       <button onClick={handleReset} className="p-2 bg-slate-700 hover:bg-slate-600 rounded-lg">
@@ -367,6 +893,13 @@ const RoadsideTestPlayground = () => {
                       <button onClick={handlePlayPause} className="p-3 bg-cyan-600 hover:bg-cyan-700 rounded-lg">
                         {isPlaying ? <Pause className="w-6 h-6" /> : <Play className="w-6 h-6" />}
                       </button>
+                      <button
+                        onClick={handleStepForward}
+                        disabled={simulation.nextEventTime(currentTime) === null}
+                        className="p-2 bg-slate-700 hover:bg-slate-600 rounded-lg disabled:opacity-50"
+                      >
+                        <SkipForward className="w-5 h-5" />
+                      </button>
                       <div className="flex-1">
                         <input
                           type="range"
@@ -398,46 +931,51 @@ const RoadsideTestPlayground = () => {
             </div>
 
             {/* Event Log */}
-            <div className="bg-slate-800/50 rounded-xl p-6 border border-slate-700">
-              <h3 className="text-lg font-bold mb-4">Event Log</h3>
-              <div className="space-y-2 max-h-64 overflow-y-auto">
-                {logs.map((log, idx) => (
-                  <div key={idx} className="flex items-start gap-3 p-3 bg-slate-900/50 rounded-lg text-sm">
-                    <span className="text-slate-500">{log.time}s</span>
-                    <span className="font-mono text-cyan-400">{log.device}</span>
-                    <span className={`px-2 py-0.5 rounded text-xs font-medium ${SEVERITY_COLORS[log.level]}`}>
-                      {log.level}
-                    </span>
-                    <span className="flex-1 text-slate-300">{log.message}</span>
-                  </div>
-                ))}
-              </div>
-            </div>
+            <EventLogView logs={logs} devices={devices} onCorrelate={setCorrelatedDevices} />
           </div>
         )}
 
+        {/* Editor Tab */}
+        {activeTab === 'editor' && (
+          <ScenarioEditor
+            scenarios={scenarios}
+            devices={devices}
+            onSave={handleSaveScenario}
+            onImport={handleImportScenarios}
+          />
+        )}
+
         {/* Tests Tab */}
         {activeTab === 'tests' && (
           <div className="space-y-6">
             <div className="flex justify-between items-center">
               <h2 className="text-xl font-bold">Test Suite</h2>
-              <button
-                onClick={runAutomatedTests}
-                className="px-4 py-2 bg-cyan-600 hover:bg-cyan-700 rounded-lg flex items-center gap-2"
-              >
-                <Zap className="w-4 h-4" />
-                Run Automated Tests
-              </button>
+              <div className="flex gap-2">
+                <button onClick={exportTestSuite} className="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg flex items-center gap-2">
+                  <Download className="w-4 h-4" />
+                  Export Tests
+                </button>
+                <button
+                  onClick={runAutomatedTests}
+                  className="px-4 py-2 bg-cyan-600 hover:bg-cyan-700 rounded-lg flex items-center gap-2"
+                >
+                  <Zap className="w-4 h-4" />
+                  Run Automated Tests
+                </button>
+              </div>
             </div>
             <div className="grid grid-cols-1 gap-4">
-              {['Unit Tests', 'Component Tests', 'Integration Tests', 'System Tests'].map((suite, idx) => (
-                <div key={idx} className="bg-slate-800/50 rounded-xl p-6 border border-slate-700">
+              {testSuites.map(suite => (
+                <div key={suite.name} className="bg-slate-800/50 rounded-xl p-6 border border-slate-700">
                   <div className="flex items-center justify-between mb-4">
-                    <h3 className="text-lg font-bold">{suite}</h3>
-                    <span className="text-sm text-slate-400">12 tests</span>
+                    <h3 className="text-lg font-bold">{suite.name}</h3>
+                    <span className="text-sm text-slate-400">
+                      {suite.total} tests · {suite.run > 0 ? `${suite.passed}/${suite.run} passed` : 'not run'}
+                    </span>
                   </div>
-                  <div className="h-2 bg-slate-700 rounded-full overflow-hidden">
-                    <div className="h-full bg-green-500" style={{ width: `${85 + idx * 3}%` }} />
+                  <div className="h-2 bg-slate-700 rounded-full overflow-hidden flex">
+                    <div className="h-full bg-green-500" style={{ width: `${(suite.passed / suite.total) * 100}%` }} />
+                    <div className="h-full bg-red-500" style={{ width: `${((suite.run - suite.passed) / suite.total) * 100}%` }} />
                   </div>
                 </div>
               ))}
@@ -445,37 +983,54 @@ const RoadsideTestPlayground = () => {
           </div>
         )}
 
+        {/* Chaos Tab */}
+        {activeTab === 'chaos' && (
+          <ChaosView
+            devices={devices}
+            links={links}
+            rules={rules}
+            testCases={testCases}
+            onSaveScenario={saveGeneratedScenario}
+          />
+        )}
+
+        {/* Time Sync Tab */}
+        {activeTab === 'time sync' && (
+          <ClockSyncView
+            scenario={selectedScenario}
+            devices={devices}
+            links={links}
+            timeline={simulation.timeline}
+            currentTime={currentTime}
+          />
+        )}
+
         {/* Reports Tab */}
         {activeTab === 'reports' && (
           <div className="space-y-6">
-            <h2 className="text-xl font-bold">Test Results & Reports</h2>
-            
-            {/* KPI Dashboard */}
-            <div className="grid grid-cols-4 gap-4">
-              {[
-                { label: 'Test Pass Rate', value: '92.3%', icon: CheckCircle, color: 'text-green-400' },
-                { label: 'System Uptime', value: '99.8%', icon: Activity, color: 'text-cyan-400' },
-                { label: 'Avg Response Time', value: '245ms', icon: Clock, color: 'text-yellow-400' },
-                { label: 'Active Alarms', value: '3', icon: AlertCircle, color: 'text-red-400' }
-              ].map((kpi, idx) => (
-                <div key={idx} className="bg-slate-800/50 rounded-xl p-6 border border-slate-700">
-                  <div className="flex items-center gap-3 mb-2">
-                    <kpi.icon className={`w-8 h-8 ${kpi.color}`} />
-                    <div>
-                      <p className="text-sm text-slate-400">{kpi.label}</p>
-                      <p className="text-2xl font-bold">{kpi.value}</p>
-                    </div>
-                  </div>
+            <div className="flex justify-between items-center">
+              <h2 className="text-xl font-bold">Test Results & Reports</h2>
+              {openedRun && (
+                <div className="flex items-center gap-3 text-sm">
+                  <span className="text-slate-400">
+                    Viewing {openedRun.id} from {new Date(openedRun.startedAt).toLocaleString()}
+                  </span>
+                  <button onClick={() => setOpenedRun(null)} className="px-3 py-1 bg-slate-700 hover:bg-slate-600 rounded-lg">
+                    Back to current session
+                  </button>
                 </div>
-              ))}
+              )}
             </div>
 
+            {/* KPI Dashboard */}
+            <KpiDashboard run={reportRun} until={reportUntil} runs={runs} loadRun={workspaceStore.loadRun} />
+
             {/* Test Results */}
-            {testResults.length > 0 && (
+            {reportRun.testResults.length > 0 && (
               <div className="bg-slate-800/50 rounded-xl p-6 border border-slate-700">
-                <h3 className="text-lg font-bold mb-4">Latest Test Run</h3>
+                <h3 className="text-lg font-bold mb-4">{openedRun ? 'Test Run' : 'Latest Test Run'}</h3>
                 <div className="space-y-2">
-                  {testResults.map(result => (
+                  {reportRun.testResults.map(result => (
                     <div key={result.id} className="flex items-center justify-between p-4 bg-slate-900/50 rounded-lg">
                       <div className="flex items-center gap-3">
                         {result.status === 'passed' ? (
@@ -485,15 +1040,138 @@ const RoadsideTestPlayground = () => {
                         )}
                         <div>
                           <p className="font-medium">{result.name}</p>
-                          <p className="text-sm text-slate-400">{result.id}</p>
+                          <p className="text-sm text-slate-400">{result.id} · {result.scenario}</p>
+                          {result.failure && (
+                            <p className="text-sm text-red-300">
+                              {result.failure.assertion ? `${result.failure.assertion}: ` : ''}{result.failure.message}
+                            </p>
+                          )}
                         </div>
                       </div>
-                      <span className="text-sm text-slate-400">{result.duration}s</span>
+                      <span className="text-sm text-slate-400">{(result.duration * 1000).toFixed(1)}ms</span>
                     </div>
                   ))}
                 </div>
               </div>
             )}
+
+            {/* Simulation Run */}
+            {openedRun?.kind === 'simulation' && (
+              <div className="bg-slate-800/50 rounded-xl p-6 border border-slate-700">
+                <h3 className="text-lg font-bold mb-4">{openedRun.scenario.name}</h3>
+                <div className="flex flex-wrap gap-2 mb-4">
+                  {openedRun.devices.map(device => (
+                    <span key={device.id} className={`px-2 py-1 rounded text-xs font-medium ${
+                      device.status === 'alarm' ? 'bg-red-900/50 text-red-300' :
+                      device.status === 'degraded' ? 'bg-yellow-900/50 text-yellow-300' :
+                      'bg-green-900/50 text-green-300'
+                    }`}>
+                      {device.id}: {device.status}
+                    </span>
+                  ))}
+                </div>
+                <div className="space-y-2 max-h-64 overflow-y-auto">
+                  {openedRun.logs.map(log => (
+                    <div key={log.id} className="flex items-start gap-3 p-3 bg-slate-900/50 rounded-lg text-sm">
+                      <span className="text-slate-500">{log.time.toFixed(1)}s</span>
+                      <span className="font-mono text-cyan-400">{log.device}</span>
+                      <span className={`px-2 py-0.5 rounded text-xs font-medium ${SEVERITY_COLORS[log.level]}`}>
+                        {log.level}
+                      </span>
+                      <span className="flex-1 text-slate-300">{log.message}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* History Tab */}
+        {activeTab === 'history' && (
+          <div className="space-y-6">
+            <div className="flex justify-between items-center">
+              <h2 className="text-xl font-bold">Run History</h2>
+              {runs.length > 1 && (
+                <div className="flex items-center gap-3 text-sm">
+                  <span className="text-slate-400">
+                    {diffSelection.length === 0 ? 'Pick a baseline and a candidate to compare'
+                      : diffSelection.length === 1 ? `Baseline ${diffSelection[0]}; pick a candidate` : `${diffSelection[0]} → ${diffSelection[1]}`}
+                  </span>
+                  <button
+                    onClick={() => compareRuns(diffSelection[0], diffSelection[1])}
+                    disabled={diffSelection.length !== 2}
+                    className="px-3 py-1 bg-cyan-600 hover:bg-cyan-700 rounded-lg flex items-center gap-2 disabled:opacity-50"
+                  >
+                    <GitCompare className="w-4 h-4" />
+                    Compare
+                  </button>
+                </div>
+              )}
+            </div>
+            {runDiff && <RunDiffView diff={runDiff} onClose={() => setRunDiff(null)} />}
+            {runs.length === 0 ? (
+              <div className="bg-slate-800/50 rounded-xl p-6 border border-slate-700 text-slate-400">
+                No runs yet. Play a scenario to the end or run the automated tests.
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {runs.map(run => {
+                  const golden = run.scenario && baselines[run.scenario.id] === run.id;
+                  const goldenId = run.scenario && baselines[run.scenario.id];
+                  const picked = diffSelection.indexOf(run.id);
+                  return (
+                    <div key={run.id} className={`flex items-center justify-between p-4 bg-slate-800/50 rounded-lg border ${golden ? 'border-yellow-500/50' : 'border-slate-700'}`}>
+                      <div className="flex items-center gap-3">
+                        <input
+                          type="checkbox"
+                          checked={picked !== -1}
+                          onChange={() => toggleDiffSelection(run.id)}
+                          title="Pick for comparison"
+                        />
+                        {run.kind === 'test' ? <Zap className="w-5 h-5 text-yellow-400" /> : <History className="w-5 h-5 text-cyan-400" />}
+                        <div>
+                          <p className="font-medium">
+                            {run.kind === 'test' ? 'Test run' : run.scenario?.name} · {run.id}
+                            {golden && <span className="ml-2 px-2 py-0.5 rounded text-xs bg-yellow-900/50 text-yellow-300">GOLDEN</span>}
+                            {picked !== -1 && <span className="ml-2 text-xs text-cyan-300">{picked === 0 ? 'baseline' : 'candidate'}</span>}
+                          </p>
+                          <p className="text-sm text-slate-400">
+                            {new Date(run.startedAt).toLocaleString()} · {run.eventCount} events
+                            {run.kind === 'test' && ` · ${run.passed} passed, ${run.failed} failed`}
+                          </p>
+                        </div>
+                      </div>
+                      <div className="flex gap-2">
+                        {goldenId && !golden && (
+                          <button onClick={() => compareRuns(goldenId, run.id)} className="px-3 py-1 bg-slate-700 hover:bg-slate-600 rounded-lg text-sm">
+                            Diff vs Golden
+                          </button>
+                        )}
+                        <button onClick={() => openRun(run.id)} className="px-3 py-1 bg-cyan-600 hover:bg-cyan-700 rounded-lg text-sm">
+                          Open in Reports
+                        </button>
+                        {run.kind === 'simulation' && (
+                          <button
+                            onClick={() => toggleBaseline(run)}
+                            title={golden ? 'Clear golden baseline' : `Make the golden baseline for ${run.scenario.id}`}
+                            className={`p-2 ${golden ? 'text-yellow-400' : 'text-slate-400 hover:text-yellow-400'}`}
+                          >
+                            <Star className="w-4 h-4" />
+                          </button>
+                        )}
+                        <button onClick={() => exportRun(run.id)} title="Export run file" className="p-2 text-slate-400 hover:text-white">
+                          <Download className="w-4 h-4" />
+                        </button>
+                        <button onClick={() => deleteRun(run.id)} title="Delete run" className="p-2 text-slate-400 hover:text-red-400">
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
           </div>
         )}
       </main>
@@ -0,0 +1,263 @@
+#!/usr/bin/env -S npx tsx
+// Headless runner for pipelines. Plays scenarios and test suites through the
+// same simulation and test modules as the playground UI:
+//
+//   rtp run <scenarios.json> [--site site.json] [--rules rules.json] [--suite tests.json]
+//           [--scenario <id>] [--inject <faults>] [--baseline runs.json] [--save-run runs.json]
+//           [--report json|junit|html|csv] [--out <file>|-]
+//   rtp fuzz --suite tests.json [--site site.json] [--rules rules.json] [--template <id>]
+//           [--params <params>] [--seed <n>] [--count <n>] [--duration <s>] [--out <file>]
+//
+// Files are the ones the UI exports. Without --site or --rules the seed
+// inventory and rules are used. Exit status: 0 when every test passes, 1 on
+// test failures or errors, 2 on bad arguments or input files.
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { generateSeedData } from './roadside-data';
+import { parseSiteConfig } from './device-inventory';
+import { parseScenarioFile, serializeScenarios, validateScenario } from './scenario-schema';
+import { parseRulesFile } from './fault-rules';
+import { parseTestSuiteFile, runBaselineCheck, runTestSuite } from './test-runner';
+import { createSimulationRun, parseRunFile, serializeRuns } from './run-records';
+import { FAULT_KINDS, injectFault, manualEvents, parseFaultSpec } from './fault-injection';
+import { DEFAULT_DURATION, SCENARIO_TEMPLATES, parseTemplateParams, runChaosBatch, templateParamsProblem } from './scenario-generator';
+import { computeKpis, formatPercent, formatSeconds, siteKpis } from './kpis';
+import { buildReport, getReportFormatter, getReportFormatters } from './report-formatters';
+
+const USAGE = `Usage: rtp run <scenarios.json> [options]
+       rtp fuzz --suite <tests.json> [options]
+
+Common options:
+  --site <file>      site configuration (inventory and links)
+  --rules <file>     fault propagation rules
+  --suite <file>     test definitions to run against the scenarios
+  --help             show this message
+
+run:
+  --scenario <id>    play only this scenario; it is also the one the report covers
+  --inject <faults>  comma-separated manual faults for the played scenarios,
+                     each <time>:<device or link>:<fault>[=value], e.g. 45:TRX-01:spike=5000
+                     (faults: ${Object.keys(FAULT_KINDS).join(', ')})
+  --baseline <file>  golden runs (a run file) the played scenarios must still match
+  --save-run <file>  write the played runs as a run file, e.g. to use as --baseline later
+  --report <format>  write a report: ${getReportFormatters().map(f => f.id).join(', ')}
+  --out <file>       report destination, "-" for stdout (default rtp-report.<ext>)
+
+fuzz (generated scenarios; failures are shrunk to a minimal event list):
+  --template <id>    ${Object.keys(SCENARIO_TEMPLATES).join(', ')} (default chaos)
+  --params <params>  template parameters, e.g. rate=1000..8000,deviceType=TRX|VDC,hold=30
+  --seed <n>         first seed (default 1); scenario n of the batch uses seed + n
+  --count <n>        scenarios to generate (default 20)
+  --duration <s>     scenario length (default ${DEFAULT_DURATION})
+  --out <file>       write the minimal failing scenarios as a scenario file`;
+
+const OPTIONS = ['site', 'rules', 'suite', 'scenario', 'inject', 'baseline', 'save-run', 'report', 'out', 'template', 'params', 'seed', 'count', 'duration'];
+
+class UsageError extends Error {}
+
+const parseArgs = (argv) => {
+  const positional = [];
+  const given = [];
+  let help = false;
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--help' || arg === '-h') {
+      help = true;
+    } else if (arg.startsWith('--')) {
+      const [name, inline] = arg.slice(2).split(/=(.*)/s);
+      if (!OPTIONS.includes(name)) throw new UsageError(`Unknown option --${name}`);
+      const value = inline ?? argv[++i];
+      if (value === undefined) throw new UsageError(`--${name} needs a value`);
+      given.push([name, value]);
+    } else {
+      positional.push(arg);
+    }
+  }
+  // A repeated option keeps its last value
+  return { positional, options: Object.fromEntries(given), help };
+};
+
+// Reads and parses an input file, naming the file in any error
+const load = async (file, parse) => {
+  let text;
+  try {
+    text = await readFile(file, 'utf8');
+  } catch (err) {
+    throw new UsageError(`Cannot read ${file}: ${err.message}`);
+  }
+  try {
+    return parse(text);
+  } catch (err) {
+    throw new UsageError(`${file}: ${err.message}`);
+  }
+};
+
+const STATUS_LABELS = { passed: 'PASS', failed: 'FAIL', error: 'ERROR' };
+
+// Site and rules from the options, falling back to the seed data
+const loadWorkspace = async (options) => {
+  const seed = generateSeedData();
+  const site = options.site ? await load(options.site, parseSiteConfig) : seed;
+  const rules = options.rules ? await load(options.rules, parseRulesFile) : seed.rules;
+  return { sites: site.sites, devices: site.devices, links: site.links, rules };
+};
+
+const integerOption = (options, name, fallback, min) => {
+  if (options[name] === undefined) return fallback;
+  const value = Number(options[name]);
+  if (!Number.isInteger(value) || value < min) throw new UsageError(`--${name} must be a whole number of at least ${min}`);
+  return value;
+};
+
+const runScenarios = async (scenarioFile, options) => {
+  const formatter = options.report ? getReportFormatter(options.report) : null;
+  if (options.report && !formatter) throw new UsageError(`Unknown report format ${options.report}`);
+
+  // With the report on stdout the summary moves to stderr
+  const print = options.out === '-' ? console.error : console.log;
+
+  const workspace = await loadWorkspace(options);
+  const authored = await load(scenarioFile, parseScenarioFile);
+  const testCases = options.suite ? await load(options.suite, parseTestSuiteFile) : [];
+  const baselines = options.baseline ? await load(options.baseline, parseRunFile) : [];
+
+  const invalid = authored.flatMap(scenario =>
+    validateScenario(scenario, workspace.devices).map(e => `${scenario.id || scenario.name}: ${e.message}`));
+  if (invalid.length > 0) throw new UsageError(`${scenarioFile}:\n  ${invalid.join('\n  ')}`);
+
+  const faults = (options.inject || '').split(',').filter(spec => spec.trim()).map(spec => {
+    try {
+      return parseFaultSpec(spec, workspace);
+    } catch (err) {
+      throw new UsageError(`--inject: ${err.message}`);
+    }
+  });
+  // Faults go into every played scenario that lasts long enough, and tests see the same scenarios
+  const scenarios = authored.map(scenario => (!options.scenario || scenario.id === options.scenario
+    ? faults.filter(fault => fault.time <= scenario.duration).reduce(injectFault, scenario)
+    : scenario));
+
+  const played = options.scenario ? scenarios.filter(s => s.id === options.scenario) : scenarios;
+  if (played.length === 0) {
+    throw new UsageError(options.scenario ? `Scenario ${options.scenario} not found in ${scenarioFile}` : `${scenarioFile} has no scenarios`);
+  }
+
+  print(`Site: ${workspace.sites.length} sites, ${workspace.devices.length} devices, ${workspace.links.length} links, ${workspace.rules.length} rules`);
+  print('');
+  const runs = played.map(scenario => {
+    const record = createSimulationRun(scenario, workspace);
+    const kpis = computeKpis(record, scenario.duration);
+    const injected = manualEvents(scenario).length;
+    print(`${scenario.id} ${scenario.name}${injected > 0 ? ` (${injected} injected faults)` : ''}`);
+    print(`  ${record.logs.length} events over ${scenario.duration}s · availability ${formatPercent(kpis.availability)} · ` +
+      `MTTR ${formatSeconds(kpis.mttr)} · ${kpis.activeAlarms} in alarm at end · ${kpis.unresolved.length} unresolved`);
+    if (workspace.sites.length > 1) {
+      siteKpis(record, scenario.duration).forEach(site => print(`    ${site.site.id} ${site.site.name}: ` +
+        `availability ${formatPercent(site.availability)} · MTTR ${formatSeconds(site.mttr)} · ${site.activeAlarms} in alarm at end`));
+    }
+    return record;
+  });
+
+  // Golden runs of scenarios that were not played are left out
+  const golden = baselines.filter(b => b.kind === 'simulation' && played.some(s => s.id === b.scenario?.id));
+  const testResults = [
+    ...runTestSuite(testCases, scenarios, workspace),
+    ...golden.map(baseline => runBaselineCheck(baseline, scenarios, workspace))
+  ];
+  if (testResults.length > 0) {
+    print('');
+    testResults.forEach(result => {
+      print(`${STATUS_LABELS[result.status]} ${result.id} ${result.name} (${(result.duration * 1000).toFixed(1)}ms)`);
+      if (result.failure) {
+        print(`     ${result.failure.assertion ? `${result.failure.assertion}: ` : ''}${result.failure.message}`);
+      }
+    });
+  }
+  const failed = testResults.filter(r => r.status === 'failed').length;
+  const errors = testResults.filter(r => r.status === 'error').length;
+  if (testResults.length > 0) {
+    print('');
+    print(`Tests: ${testResults.length - failed - errors} passed, ${failed} failed, ${errors} errors, ${testResults.length} total`);
+  }
+
+  if (options['save-run']) {
+    await writeFile(options['save-run'], serializeRuns(runs));
+    print(`${runs.length} runs written to ${options['save-run']}`);
+  }
+
+  if (formatter) {
+    const primary = runs[0];
+    const report = formatter.format(buildReport({ ...primary, testResults }, primary.scenario.duration));
+    if (options.out === '-') {
+      process.stdout.write(report);
+    } else {
+      const out = options.out || `rtp-report.${formatter.extension}`;
+      await writeFile(out, report);
+      print(`Report (${formatter.label}) written to ${out}`);
+    }
+  }
+
+  return failed + errors > 0 ? 1 : 0;
+};
+
+const fuzz = async (options) => {
+  if (!options.suite) throw new UsageError('rtp fuzz needs --suite with the tests to check');
+  const template = options.template || 'chaos';
+  const params = parseTemplateParams(options.params);
+  const problem = templateParamsProblem(template, params);
+  if (problem) throw new UsageError(options.params && SCENARIO_TEMPLATES[template] ? `--params: ${problem}` : problem);
+  const workspace = await loadWorkspace(options);
+  const testCases = await load(options.suite, parseTestSuiteFile);
+  const seed = integerOption(options, 'seed', 1, 0);
+  const count = integerOption(options, 'count', 20, 1);
+  const duration = integerOption(options, 'duration', DEFAULT_DURATION, 1);
+
+  console.log(`Site: ${workspace.sites.length} sites, ${workspace.devices.length} devices, ${workspace.links.length} links, ${workspace.rules.length} rules`);
+  console.log(`${SCENARIO_TEMPLATES[template].name}: seeds ${seed}-${seed + count - 1}, ${testCases.length} tests`);
+  console.log('');
+
+  const { skipped, results } = runChaosBatch(testCases, workspace, { seed, count, template, params, duration });
+  skipped.forEach(s => {
+    console.log(`SKIP ${s.test.id} ${s.test.name}: fails without any faults`);
+    console.log(`     ${s.failure.assertion ? `${s.failure.assertion}: ` : ''}${s.failure.message}`);
+  });
+  if (skipped.length > 0) console.log('');
+  const failures = results.flatMap(r => r.failures.map(f => ({ ...f, seed: r.seed, scenario: r.scenario })));
+  failures.forEach(f => {
+    console.log(`FAIL seed ${f.seed} ${f.test.id} ${f.test.name}`);
+    console.log(`     ${f.failure.assertion ? `${f.failure.assertion}: ` : ''}${f.failure.message}`);
+    console.log(`     minimal scenario, ${f.minimal.events.length} of ${f.scenario.events.length} events:`);
+    if (f.minimal.events.length === 0) console.log('       (none: the test fails with no events at all)');
+    f.minimal.events.forEach(e => console.log(`       ${e.time}s ${e.device} ${e.type}${e.value !== undefined ? ` ${e.value}` : ''} (${e.severity})`));
+  });
+
+  if (failures.length > 0) console.log('');
+  console.log(`Fuzz: ${count} scenarios, ${results.filter(r => r.failures.length).length} failing, ${failures.length} failures${skipped.length ? `, ${skipped.length} tests skipped` : ''}`);
+
+  if (options.out && failures.length > 0) {
+    const minimal = [...new Map(failures.map(f => [f.minimal.id, f.minimal])).values()];
+    await writeFile(options.out, serializeScenarios(minimal));
+    console.log(`Minimal scenarios written to ${options.out}`);
+  }
+  return failures.length > 0 ? 1 : 0;
+};
+
+const run = async (argv) => {
+  const { positional, options, help } = parseArgs(argv);
+  if (help) {
+    console.log(USAGE);
+    return 0;
+  }
+  const [command, ...args] = positional;
+  if (command === 'run' && args.length === 1) return runScenarios(args[0], options);
+  if (command === 'fuzz' && args.length === 0) return fuzz(options);
+  throw new UsageError(USAGE);
+};
+
+run(process.argv.slice(2)).then(
+  (code) => { process.exitCode = code; },
+  (err) => {
+    console.error(err instanceof UsageError ? err.message : err.stack || err);
+    process.exitCode = 2;
+  }
+);
@@ -0,0 +1,243 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { SEVERITY_COLORS } from './roadside-data';
+import { formatPercent, formatSeconds } from './kpis';
+
+const STATUS_FILL = { normal: '#22c55e', degraded: '#f59e0b', alarm: '#ef4444' };
+const BAR_WIDTH = 300;
+// Longer event diffs are cut off here; the counts above still cover everything
+const MAX_EVENT_ROWS = 500;
+
+const CHANGE_STYLES = {
+  same: 'bg-slate-700 text-slate-300',
+  shifted: 'bg-yellow-900/50 text-yellow-300',
+  changed: 'bg-yellow-900/50 text-yellow-300',
+  added: 'bg-green-900/50 text-green-300',
+  removed: 'bg-red-900/50 text-red-300'
+};
+
+const TEST_CHANGE_STYLES = {
+  fixed: 'text-green-400',
+  broken: 'text-red-400',
+  added: 'text-slate-300',
+  removed: 'text-slate-400'
+};
+
+const KPI_FORMATS = {
+  passRate: formatPercent,
+  availability: formatPercent,
+  mttr: formatSeconds,
+  activeAlarms: (v) => (v === null ? '—' : String(v))
+};
+
+const formatDelta = (row) => {
+  if (row.delta === null || Math.abs(row.delta) < 1e-9) return '—';
+  const sign = row.delta > 0 ? '+' : '−';
+  const magnitude = Math.abs(row.delta);
+  if (row.key === 'passRate' || row.key === 'availability') return `${sign}${(magnitude * 100).toFixed(1)} pts`;
+  if (row.key === 'mttr') return `${sign}${magnitude.toFixed(1)}s`;
+  return `${sign}${magnitude}`;
+};
+
+const StatusBar = ({ segments, until }) => (
+  <svg viewBox={`0 0 ${BAR_WIDTH} 14`} className="w-full h-3.5">
+    {segments.map((segment, idx) => (
+      <rect
+        key={idx}
+        x={(segment.start / until) * BAR_WIDTH}
+        width={Math.max(((segment.end - segment.start) / until) * BAR_WIDTH, 1)}
+        height="14"
+        fill={STATUS_FILL[segment.status]}
+      >
+        <title>{`${segment.status} ${segment.start.toFixed(1)}s–${segment.end.toFixed(1)}s`}</title>
+      </rect>
+    ))}
+  </svg>
+);
+
+const EventCell = ({ log }) => (log ? (
+  <span className="flex items-center gap-2 min-w-0">
+    <span className="text-slate-500 w-12 shrink-0">{log.time.toFixed(1)}s</span>
+    <span className={`px-1.5 rounded shrink-0 ${SEVERITY_COLORS[log.level]}`}>{log.level}</span>
+    <span className="truncate" title={log.message}>{log.message}</span>
+  </span>
+) : <span className="text-slate-600">—</span>);
+
+const RunDiffView = ({ diff, onClose }) => {
+  const [onlyDiffering, setOnlyDiffering] = useState(true);
+  const [showSame, setShowSame] = useState(false);
+
+  const changedEvents = diff.events.filter(row => row.change !== 'same');
+  const differingTimelines = diff.timelines.filter(t => t.differs);
+  const changedTests = diff.tests.filter(t => t.change !== 'unchanged');
+  const timelines = onlyDiffering ? differingTimelines : diff.timelines;
+  const events = showSame ? diff.events : changedEvents;
+  const until = Math.max(diff.baseline.scenario?.duration || 0, diff.candidate.scenario?.duration || 0, 1);
+  const count = (change) => diff.events.filter(row => row.change === change).length;
+
+  const summary = [
+    { label: 'added events', value: count('added'), color: 'text-green-400' },
+    { label: 'removed events', value: count('removed'), color: 'text-red-400' },
+    { label: 'moved or changed', value: count('shifted') + count('changed'), color: 'text-yellow-400' },
+    { label: 'timelines differ', value: differingTimelines.length, color: 'text-yellow-400' },
+    { label: 'new alarms', value: diff.alarms.added.length, color: 'text-red-400' },
+    { label: 'vanished alarms', value: diff.alarms.vanished.length, color: 'text-green-400' },
+    { label: 'tests broken', value: diff.tests.filter(t => t.change === 'broken').length, color: 'text-red-400' }
+  ];
+
+  return (
+    <div className="bg-slate-800/50 rounded-xl p-6 border border-cyan-500/50 space-y-6">
+      <div className="flex justify-between items-start">
+        <div>
+          <h3 className="text-lg font-bold">Run Diff</h3>
+          <p className="text-sm text-slate-400">
+            Baseline {diff.baseline.id} ({diff.baseline.scenario?.name || 'test run'}) →
+            candidate {diff.candidate.id} ({diff.candidate.scenario?.name || 'test run'})
+          </p>
+          {diff.baseline.scenario?.id !== diff.candidate.scenario?.id && (
+            <p className="text-sm text-yellow-300">The runs played different scenarios.</p>
+          )}
+        </div>
+        <button onClick={onClose} className="text-slate-400 hover:text-white">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-4 md:grid-cols-7 gap-2">
+        {summary.map(item => (
+          <div key={item.label} className="p-3 bg-slate-900/50 rounded-lg">
+            <p className={`text-xl font-bold ${item.value > 0 ? item.color : 'text-slate-500'}`}>{item.value}</p>
+            <p className="text-xs text-slate-400">{item.label}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-6">
+        <div>
+          <h4 className="font-bold mb-2">KPIs</h4>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-slate-400 text-left">
+                <th className="py-1">KPI</th>
+                <th className="py-1">Baseline</th>
+                <th className="py-1">Candidate</th>
+                <th className="py-1">Change</th>
+              </tr>
+            </thead>
+            <tbody>
+              {diff.kpis.map(row => (
+                <tr key={row.key} className="border-t border-slate-700">
+                  <td className="py-1 text-slate-400">{row.label}</td>
+                  <td className="py-1">{KPI_FORMATS[row.key](row.baseline)}</td>
+                  <td className="py-1">{KPI_FORMATS[row.key](row.candidate)}</td>
+                  <td className={`py-1 font-medium ${row.worse ? 'text-red-400' : row.delta ? 'text-green-400' : 'text-slate-500'}`}>
+                    {formatDelta(row)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <h4 className="font-bold mb-2">Alarms</h4>
+            {diff.alarms.added.length + diff.alarms.vanished.length === 0 ? (
+              <p className="text-sm text-slate-400">Both runs raise the same alarms.</p>
+            ) : (
+              <ul className="text-sm space-y-1">
+                {diff.alarms.added.map((a, idx) => (
+                  <li key={`added-${idx}`} className="text-red-300">New: {a.device} in alarm {a.start.toFixed(1)}s–{a.end.toFixed(1)}s</li>
+                ))}
+                {diff.alarms.vanished.map((a, idx) => (
+                  <li key={`vanished-${idx}`} className="text-green-300">Gone: {a.device} was in alarm {a.start.toFixed(1)}s–{a.end.toFixed(1)}s</li>
+                ))}
+              </ul>
+            )}
+          </div>
+          <div>
+            <h4 className="font-bold mb-2">Test Results</h4>
+            {changedTests.length === 0 ? (
+              <p className="text-sm text-slate-400">
+                {diff.tests.length === 0 ? 'Neither run has test results.' : 'No test changed outcome.'}
+              </p>
+            ) : (
+              <ul className="text-sm space-y-1">
+                {changedTests.map(t => (
+                  <li key={t.id} className={TEST_CHANGE_STYLES[t.change]}>
+                    {t.id} {t.name}: {t.baseline || 'not run'} → {t.candidate || 'not run'}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div>
+        <div className="flex justify-between items-center mb-2">
+          <h4 className="font-bold">Status Timelines</h4>
+          <label className="flex items-center gap-2 text-sm text-slate-400">
+            <input type="checkbox" checked={onlyDiffering} onChange={(e) => setOnlyDiffering(e.target.checked)} />
+            Only differing devices
+          </label>
+        </div>
+        {timelines.length === 0 ? (
+          <p className="text-sm text-slate-400">Every device follows the same status timeline in both runs.</p>
+        ) : (
+          <div className="space-y-1">
+            <div className="grid grid-cols-12 gap-3 text-xs text-slate-500">
+              <span className="col-span-2" />
+              <span className="col-span-5">Baseline</span>
+              <span className="col-span-5">Candidate</span>
+            </div>
+            {timelines.map(t => (
+              <div key={t.device} className="grid grid-cols-12 gap-3 items-center">
+                <span className={`col-span-2 text-xs font-mono ${t.differs ? 'text-yellow-300' : 'text-cyan-400'}`}>{t.device}</span>
+                <div className="col-span-5"><StatusBar segments={t.baseline} until={until} /></div>
+                <div className="col-span-5"><StatusBar segments={t.candidate} until={until} /></div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div>
+        <div className="flex justify-between items-center mb-2">
+          <h4 className="font-bold">Event Log</h4>
+          <label className="flex items-center gap-2 text-sm text-slate-400">
+            <input type="checkbox" checked={showSame} onChange={(e) => setShowSame(e.target.checked)} />
+            Show unchanged events
+          </label>
+        </div>
+        {events.length === 0 ? (
+          <p className="text-sm text-slate-400">
+            {diff.events.length === 0 ? 'Neither run has logged events.' : `All ${diff.events.length} events match.`}
+          </p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto space-y-1 text-xs font-mono">
+            {events.slice(0, MAX_EVENT_ROWS).map((row, idx) => {
+              const log = row.candidate || row.baseline;
+              return (
+                <div key={idx} className="grid grid-cols-12 gap-3 items-center p-2 bg-slate-900/50 rounded">
+                  <span className={`col-span-1 px-1.5 rounded text-center ${CHANGE_STYLES[row.change]}`}>{row.change}</span>
+                  <span className="col-span-2 text-cyan-400 truncate">{log.device} {log.type}</span>
+                  <span className="col-span-4 min-w-0"><EventCell log={row.baseline} /></span>
+                  <span className="col-span-4 min-w-0"><EventCell log={row.candidate} /></span>
+                  <span className="col-span-1 text-right text-slate-400">
+                    {row.change === 'shifted' ? `${row.candidate.time > row.baseline.time ? '+' : '−'}${Math.abs(row.candidate.time - row.baseline.time).toFixed(1)}s` : ''}
+                  </span>
+                </div>
+              );
+            })}
+            {events.length > MAX_EVENT_ROWS && (
+              <p className="text-slate-500 p-2">{events.length - MAX_EVENT_ROWS} more rows not shown</p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RunDiffView;
@@ -0,0 +1,155 @@
+// Differences between two recorded runs, a baseline and a candidate: the event
+// log entry by entry, device status timelines, KPIs, test results and alarms.
+// Runs are compared on scenario time, never on wall-clock timestamps.
+
+import { computeKpis, statusTimelines } from './kpis';
+
+// Events this close in time count as the same event
+export const TIME_TOLERANCE = 0.05;
+
+// Direction in which each KPI gets worse
+const KPI_DIRECTIONS = [
+  { key: 'passRate', label: 'Test Pass Rate', worse: -1 },
+  { key: 'availability', label: 'Availability', worse: -1 },
+  { key: 'mttr', label: 'Mean Time to Recover', worse: 1 },
+  { key: 'activeAlarms', label: 'Active Alarms', worse: 1 }
+];
+
+const logKey = (log) => `${log.device}|${log.type}|${log.level}`;
+
+const byTime = (logs) => [...logs].sort((a, b) => a.time - b.time || a.id - b.id);
+
+// The nth baseline event of a device, type and severity is paired with the nth
+// candidate one. Rows: { change, time, baseline, candidate }, where change is
+//   same | shifted (time moved) | changed (message differs) | added | removed
+export const diffLogs = (baselineLogs, candidateLogs, tolerance = TIME_TOLERANCE) => {
+  const pending = new Map();
+  byTime(candidateLogs).forEach(log => {
+    const key = logKey(log);
+    if (!pending.has(key)) pending.set(key, []);
+    pending.get(key).push(log);
+  });
+
+  const rows = byTime(baselineLogs).map(baseline => {
+    const candidate = pending.get(logKey(baseline))?.shift();
+    if (!candidate) return { change: 'removed', time: baseline.time, baseline, candidate: null };
+    const change = Math.abs(candidate.time - baseline.time) > tolerance ? 'shifted'
+      : candidate.message !== baseline.message ? 'changed'
+      : 'same';
+    return { change, time: Math.min(baseline.time, candidate.time), baseline, candidate };
+  });
+  pending.forEach(left => left.forEach(candidate => rows.push({ change: 'added', time: candidate.time, baseline: null, candidate })));
+  return rows.sort((a, b) => a.time - b.time);
+};
+
+const sameSegments = (a, b, tolerance) => a.length === b.length && a.every((segment, idx) =>
+  segment.status === b[idx].status &&
+  Math.abs(segment.start - b[idx].start) <= tolerance &&
+  Math.abs(segment.end - b[idx].end) <= tolerance);
+
+// Side-by-side status segments for every device in either run
+export const diffTimelines = (baseline, candidate, tolerance = TIME_TOLERANCE) => {
+  const baseTimelines = statusTimelines(baseline.devices, baseline.changes || [], baseline.scenario?.duration || 0);
+  const candTimelines = statusTimelines(candidate.devices, candidate.changes || [], candidate.scenario?.duration || 0);
+  const ids = [...new Set([...baseTimelines, ...candTimelines].map(t => t.device))];
+  return ids.map(device => {
+    const base = baseTimelines.find(t => t.device === device)?.segments || [];
+    const cand = candTimelines.find(t => t.device === device)?.segments || [];
+    return { device, baseline: base, candidate: cand, differs: !sameSegments(base, cand, tolerance) };
+  });
+};
+
+const alarmEpisodes = (timelines, side) =>
+  timelines.flatMap(t => t[side].filter(s => s.status === 'alarm').map(s => ({ device: t.device, start: s.start, end: s.end })));
+
+const overlaps = (a, b) => a.device === b.device && a.start <= b.end && b.start <= a.end;
+
+// Alarm periods with no overlapping alarm on the same device in the other run
+export const diffAlarms = (timelines) => {
+  const baseline = alarmEpisodes(timelines, 'baseline');
+  const candidate = alarmEpisodes(timelines, 'candidate');
+  return {
+    added: candidate.filter(a => !baseline.some(b => overlaps(a, b))),
+    vanished: baseline.filter(b => !candidate.some(a => overlaps(a, b)))
+  };
+};
+
+// change: unchanged | fixed | broken | added | removed
+export const diffTests = (baselineResults = [], candidateResults = []) => {
+  const ids = [...new Set([...baselineResults, ...candidateResults].map(r => r.id))];
+  return ids.map(id => {
+    const baseline = baselineResults.find(r => r.id === id) || null;
+    const candidate = candidateResults.find(r => r.id === id) || null;
+    const change = !baseline ? 'added'
+      : !candidate ? 'removed'
+      : baseline.status === candidate.status ? 'unchanged'
+      : candidate.status === 'passed' ? 'fixed'
+      : 'broken';
+    return { id, name: (candidate || baseline).name, baseline: baseline?.status || null, candidate: candidate?.status || null, change };
+  });
+};
+
+export const diffKpis = (baseline, candidate) => {
+  const before = computeKpis(baseline, baseline.scenario?.duration || 0);
+  const after = computeKpis(candidate, candidate.scenario?.duration || 0);
+  return KPI_DIRECTIONS.map(({ key, label, worse }) => {
+    const delta = before[key] === null || after[key] === null ? null : after[key] - before[key];
+    return { key, label, baseline: before[key], candidate: after[key], delta, worse: delta !== null && delta * worse > 1e-9 };
+  });
+};
+
+export const diffRuns = (baseline, candidate, tolerance = TIME_TOLERANCE) => {
+  const timelines = diffTimelines(baseline, candidate, tolerance);
+  return {
+    baseline: { id: baseline.id, startedAt: baseline.startedAt, scenario: baseline.scenario },
+    candidate: { id: candidate.id, startedAt: candidate.startedAt, scenario: candidate.scenario },
+    events: diffLogs(baseline.logs || [], candidate.logs || [], tolerance),
+    timelines,
+    alarms: diffAlarms(timelines),
+    kpis: diffKpis(baseline, candidate),
+    tests: diffTests(baseline.testResults, candidate.testResults)
+  };
+};
+
+const describeRow = (row) => {
+  const log = row.candidate || row.baseline;
+  const what = `${log.device} ${log.type}`;
+  switch (row.change) {
+    case 'added': return `${what} at ${log.time}s is new`;
+    case 'removed': return `${what} at ${log.time}s is missing`;
+    case 'shifted': return `${what} moved from ${row.baseline.time}s to ${row.candidate.time}s`;
+    default: return `${what} at ${log.time}s now reads "${row.candidate.message}"`;
+  }
+};
+
+// What a golden baseline check asserts, as { description, passed, message }
+export const baselineChecks = (diff) => {
+  const events = diff.events.filter(row => row.change !== 'same');
+  const timelines = diff.timelines.filter(t => t.differs);
+  const { added, vanished } = diff.alarms;
+  const broken = diff.tests.filter(t => t.change === 'broken');
+  return [
+    {
+      description: 'event log matches the baseline',
+      passed: events.length === 0,
+      message: events.length === 0 ? null
+        : `${events.length} of ${diff.events.length} events differ, first ${describeRow(events[0])}`
+    },
+    {
+      description: 'device status timelines match the baseline',
+      passed: timelines.length === 0,
+      message: timelines.length === 0 ? null : `different on ${timelines.map(t => t.device).join(', ')}`
+    },
+    {
+      description: 'no new or vanished alarms',
+      passed: added.length + vanished.length === 0,
+      message: added.length + vanished.length === 0 ? null
+        : [...added.map(a => `new alarm on ${a.device} at ${a.start}s`), ...vanished.map(a => `alarm on ${a.device} at ${a.start}s gone`)].join('; ')
+    },
+    {
+      description: 'no test that passed on the baseline fails',
+      passed: broken.length === 0,
+      message: broken.length === 0 ? null : broken.map(t => `${t.id} now ${t.candidate}`).join(', ')
+    }
+  ];
+};
@@ -0,0 +1,61 @@
+// Run records: everything needed to reopen a simulation or test run later,
+// independent of later edits to the inventory or scenarios.
+
+import { createSimulation } from './simulation-engine';
+import { RUN_SCHEMA_VERSION, migrateRun } from './workspace-store';
+import { DEFAULT_SITE } from './site-hierarchy';
+import { parseVersionedFile } from './versioned-file';
+
+export const RUN_FILE_FORMAT = 'roadside-runs';
+export const RUN_FILE_VERSION = 1;
+
+// Runs started in the same millisecond, e.g. one per scenario in the headless
+// runner, are told apart by a sequence number
+let runSequence = 0;
+const createRunId = (startedAt) =>
+  `RUN-${startedAt.getTime().toString(36).toUpperCase()}-${(++runSequence).toString(36).toUpperCase()}`;
+
+const baseRun = (kind, startedAt) => ({
+  schemaVersion: RUN_SCHEMA_VERSION,
+  id: createRunId(startedAt),
+  kind,
+  startedAt: startedAt.toISOString()
+});
+
+// Full playback of a scenario; log timestamps are anchored at the run start
+export const createSimulationRun = (scenario, { sites = [DEFAULT_SITE], devices, links = [], rules = [] }, startedAt = new Date()) => {
+  const simulation = createSimulation(scenario, devices, { links, rules, epoch: startedAt.getTime() });
+  const final = simulation.stateAt(scenario.duration);
+  return {
+    ...baseRun('simulation', startedAt),
+    scenario: { id: scenario.id, name: scenario.name, duration: scenario.duration },
+    sites,
+    devices: final.devices,
+    links: final.links,
+    logs: final.logs,
+    changes: final.changes,
+    testResults: []
+  };
+};
+
+export const createTestRun = (testResults, { sites = [DEFAULT_SITE], devices }, startedAt = new Date()) => ({
+  ...baseRun('test', startedAt),
+  scenario: null,
+  sites,
+  devices,
+  links: [],
+  logs: [],
+  changes: [],
+  testResults
+});
+
+// Run files carry recorded runs out of the browser, e.g. golden baselines for the headless runner
+export const serializeRuns = (runs) => JSON.stringify({
+  format: RUN_FILE_FORMAT,
+  version: RUN_FILE_VERSION,
+  runs
+}, null, 2);
+
+// Throws on files that are not run files; runs from older schemas are migrated
+export const parseRunFile = (text) =>
+  parseVersionedFile(text, RUN_FILE_FORMAT, RUN_FILE_VERSION, 'runs', 'run file').runs.map(migrateRun);
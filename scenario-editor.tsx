@@ -0,0 +1,381 @@
+import React, { useState, useRef } from 'react';
+import { Plus, Copy, Save, Upload, Download, ArrowUp, ArrowDown, Trash2 } from 'lucide-react';
+import { SEVERITY_COLORS } from './roadside-data';
+import { validateScenario, serializeScenarios, parseScenarioFile } from './scenario-schema';
+import { DEFAULT_SITE, formatSelector, parseSelector, selectDevices, siteOf } from './site-hierarchy';
+import { downloadText } from './download';
+
+// Device select value for events that pick their devices with a selector
+const SELECTOR_OPTION = '*selector';
+
+const isSelectorEvent = (event) => Boolean(event.selector) && !event.device;
+
+const cloneScenario = (scenario) => ({ ...scenario, events: scenario.events.map(e => ({ ...e })) });
+
+const nextScenarioId = (scenarios) => {
+  let n = scenarios.length;
+  let id;
+  do { id = `SC-${String(++n).padStart(3, '0')}`; } while (scenarios.some(s => s.id === id));
+  return id;
+};
+
+const ScenarioEditor = ({ scenarios, devices, onSave, onImport }) => {
+  const [draft, setDraft] = useState(null);
+  const [originalId, setOriginalId] = useState(null);
+  const [selectedEvent, setSelectedEvent] = useState(null);
+  const [dragIndex, setDragIndex] = useState(null);
+  const [fileError, setFileError] = useState(null);
+  const [selectorError, setSelectorError] = useState(null);
+  const timelineRef = useRef(null);
+  const fileInputRef = useRef(null);
+
+  const errors = draft ? validateScenario(draft, devices) : [];
+  if (draft && scenarios.some(s => s.id === draft.id && s.id !== originalId)) {
+    errors.unshift({ index: null, field: 'id', message: `Scenario ID "${draft.id}" is already in use` });
+  }
+  const eventHasError = (index, field) => errors.some(e => e.index === index && e.field === field);
+
+  const openScenario = (scenario) => {
+    setDraft(cloneScenario(scenario));
+    setOriginalId(scenario.id);
+    setSelectedEvent(null);
+  };
+
+  const createScenario = () => {
+    setDraft({ id: nextScenarioId(scenarios), name: 'New Scenario', duration: 60, events: [] });
+    setOriginalId(null);
+    setSelectedEvent(null);
+  };
+
+  const cloneSelected = () => {
+    if (!draft) return;
+    setDraft({ ...cloneScenario(draft), id: nextScenarioId(scenarios), name: `${draft.name} (copy)` });
+    setOriginalId(null);
+  };
+
+  const updateDraft = (changes) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const updateEvent = (index, changes) => {
+    setDraft(prev => ({
+      ...prev,
+      events: prev.events.map((e, i) => (i === index ? { ...e, ...changes } : e))
+    }));
+  };
+
+  const changeTarget = (index, value) => {
+    setSelectorError(null);
+    updateEvent(index, value === SELECTOR_OPTION
+      ? { device: undefined, selector: { site: devices[0] ? siteOf(devices[0]) : DEFAULT_SITE.id } }
+      : { device: value, selector: undefined });
+  };
+
+  // Selector text is applied when it parses; otherwise the previous selector stays
+  const applySelector = (index, text) => {
+    try {
+      updateEvent(index, { selector: parseSelector(text) });
+      setSelectorError(null);
+    } catch (err) {
+      setSelectorError({ index, message: err.message });
+    }
+  };
+
+  const addEvent = () => {
+    const time = selectedEvent !== null ? draft.events[selectedEvent].time : 0;
+    setDraft(prev => ({
+      ...prev,
+      events: [...prev.events, { time, device: devices[0]?.id || '', type: '', severity: 'LOW' }]
+    }));
+    setSelectedEvent(draft.events.length);
+  };
+
+  const moveEvent = (index, offset) => {
+    const target = index + offset;
+    if (target < 0 || target >= draft.events.length) return;
+    setDraft(prev => {
+      const events = [...prev.events];
+      [events[index], events[target]] = [events[target], events[index]];
+      return { ...prev, events };
+    });
+    setSelectedEvent(target);
+  };
+
+  const deleteEvent = (index) => {
+    setDraft(prev => ({ ...prev, events: prev.events.filter((_, i) => i !== index) }));
+    setSelectedEvent(null);
+  };
+
+  const sortByTime = () => {
+    setDraft(prev => ({ ...prev, events: [...prev.events].sort((a, b) => a.time - b.time) }));
+    setSelectedEvent(null);
+  };
+
+  const handleSave = () => {
+    if (errors.length > 0) return;
+    onSave(draft, originalId);
+    setOriginalId(draft.id);
+  };
+
+  // Dragging a marker along the timeline moves the event in time
+  const handleTimelineMove = (e) => {
+    if (dragIndex === null || !timelineRef.current) return;
+    const rect = timelineRef.current.getBoundingClientRect();
+    const ratio = Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1);
+    updateEvent(dragIndex, { time: Math.round(ratio * draft.duration * 10) / 10 });
+  };
+
+  const exportScenarios = (list, fileName) => {
+    downloadText(fileName, serializeScenarios(list), 'application/json');
+  };
+
+  const handleImportFile = async (e) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseScenarioFile(await file.text());
+      const invalid = imported.filter(s => validateScenario(s, devices).length > 0);
+      if (invalid.length > 0) {
+        setFileError(`${invalid.map(s => s.id || s.name).join(', ')} failed validation and were not imported`);
+      } else {
+        setFileError(null);
+      }
+      onImport(imported.filter(s => !invalid.includes(s)));
+    } catch (err) {
+      setFileError(err.message);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-3 gap-6">
+      {/* Scenario List */}
+      <div className="col-span-1 space-y-4">
+        <div className="flex justify-between items-center">
+          <h2 className="text-xl font-bold">Scenarios</h2>
+          <div className="flex gap-2">
+            <button onClick={createScenario} title="New scenario" className="p-2 bg-cyan-600 hover:bg-cyan-700 rounded-lg">
+              <Plus className="w-4 h-4" />
+            </button>
+            <button onClick={cloneSelected} disabled={!draft} title="Clone scenario" className="p-2 bg-slate-700 hover:bg-slate-600 rounded-lg disabled:opacity-50">
+              <Copy className="w-4 h-4" />
+            </button>
+            <button onClick={() => fileInputRef.current?.click()} title="Import scenario file" className="p-2 bg-slate-700 hover:bg-slate-600 rounded-lg">
+              <Upload className="w-4 h-4" />
+            </button>
+            <button onClick={() => exportScenarios(scenarios, 'scenarios.json')} title="Export all scenarios" className="p-2 bg-slate-700 hover:bg-slate-600 rounded-lg">
+              <Download className="w-4 h-4" />
+            </button>
+            <input ref={fileInputRef} type="file" accept=".json" onChange={handleImportFile} className="hidden" />
+          </div>
+        </div>
+        {fileError && <p className="text-sm text-red-300">{fileError}</p>}
+        {scenarios.map(scenario => (
+          <div
+            key={scenario.id}
+            onClick={() => openScenario(scenario)}
+            className={`p-4 rounded-lg border cursor-pointer transition-all ${
+              originalId === scenario.id
+                ? 'bg-cyan-600/20 border-cyan-500'
+                : 'bg-slate-800/50 border-slate-700 hover:border-slate-600'
+            }`}
+          >
+            <h3 className="font-bold mb-1">{scenario.name}</h3>
+            <p className="text-sm text-slate-400">{scenario.id} · {scenario.duration}s · {scenario.events.length} events</p>
+          </div>
+        ))}
+      </div>
+
+      {/* Editor */}
+      <div className="col-span-2 space-y-4">
+        {!draft ? (
+          <div className="bg-slate-800/50 rounded-xl p-6 border border-slate-700 text-slate-400">
+            Select a scenario to edit, or create a new one.
+          </div>
+        ) : (
+          <>
+            <div className="bg-slate-800/50 rounded-xl p-6 border border-slate-700 space-y-4">
+              <div className="grid grid-cols-4 gap-4">
+                <label className="text-sm">
+                  <span className="text-slate-400">ID</span>
+                  <input
+                    value={draft.id}
+                    onChange={(e) => updateDraft({ id: e.target.value })}
+                    className="mt-1 w-full px-3 py-2 bg-slate-900 rounded-lg"
+                  />
+                </label>
+                <label className="text-sm col-span-2">
+                  <span className="text-slate-400">Name</span>
+                  <input
+                    value={draft.name}
+                    onChange={(e) => updateDraft({ name: e.target.value })}
+                    className="mt-1 w-full px-3 py-2 bg-slate-900 rounded-lg"
+                  />
+                </label>
+                <label className="text-sm">
+                  <span className="text-slate-400">Duration (s)</span>
+                  <input
+                    type="number"
+                    min="1"
+                    value={draft.duration}
+                    onChange={(e) => updateDraft({ duration: parseFloat(e.target.value) })}
+                    className="mt-1 w-full px-3 py-2 bg-slate-900 rounded-lg"
+                  />
+                </label>
+              </div>
+
+              {/* Visual Timeline */}
+              <div
+                ref={timelineRef}
+                onPointerMove={handleTimelineMove}
+                onPointerUp={() => setDragIndex(null)}
+                onPointerLeave={() => setDragIndex(null)}
+                className="relative h-12 bg-slate-900/50 rounded-lg select-none"
+              >
+                <div className="absolute left-0 right-0 top-1/2 h-px bg-slate-600" />
+                {draft.events.map((event, index) => (
+                  <div
+                    key={index}
+                    onPointerDown={() => { setDragIndex(index); setSelectedEvent(index); }}
+                    title={`${event.time}s ${isSelectorEvent(event) ? formatSelector(event.selector) : event.device} ${event.type}`}
+                    className={`absolute top-2 w-3 h-8 -ml-1.5 rounded cursor-ew-resize ${SEVERITY_COLORS[event.severity] || 'bg-slate-400'} ${
+                      selectedEvent === index ? 'ring-2 ring-cyan-400' : ''
+                    }`}
+                    style={{ left: `${Math.min(Math.max(event.time / (draft.duration || 1), 0), 1) * 100}%` }}
+                  />
+                ))}
+              </div>
+              <div className="flex justify-between text-sm text-slate-400">
+                <span>0s</span>
+                <span>{draft.duration}s</span>
+              </div>
+            </div>
+
+            {/* Event List */}
+            <div className="bg-slate-800/50 rounded-xl p-6 border border-slate-700">
+              <div className="flex justify-between items-center mb-4">
+                <h3 className="text-lg font-bold">Events</h3>
+                <div className="flex gap-2">
+                  <button onClick={sortByTime} className="px-3 py-1 bg-slate-700 hover:bg-slate-600 rounded-lg text-sm">
+                    Sort by time
+                  </button>
+                  <button onClick={addEvent} className="px-3 py-1 bg-cyan-600 hover:bg-cyan-700 rounded-lg text-sm flex items-center gap-1">
+                    <Plus className="w-4 h-4" />
+                    Add Event
+                  </button>
+                </div>
+              </div>
+              <div className="space-y-2 max-h-96 overflow-y-auto">
+                {draft.events.map((event, index) => (
+                  <div
+                    key={index}
+                    onClick={() => setSelectedEvent(index)}
+                    className={`grid grid-cols-12 gap-2 items-center p-2 rounded-lg text-sm ${
+                      selectedEvent === index ? 'bg-cyan-900/30' : 'bg-slate-900/50'
+                    }`}
+                  >
+                    <input
+                      type="number"
+                      step="0.1"
+                      value={event.time}
+                      onChange={(e) => updateEvent(index, { time: parseFloat(e.target.value) })}
+                      className={`col-span-2 px-2 py-1 bg-slate-900 rounded ${eventHasError(index, 'time') ? 'ring-1 ring-red-500' : ''}`}
+                    />
+                    <select
+                      value={isSelectorEvent(event) ? SELECTOR_OPTION : event.device}
+                      onChange={(e) => changeTarget(index, e.target.value)}
+                      className={`col-span-2 px-2 py-1 bg-slate-900 rounded ${eventHasError(index, 'device') ? 'ring-1 ring-red-500' : ''}`}
+                    >
+                      {!isSelectorEvent(event) && !devices.some(d => d.id === event.device) && <option value={event.device}>{event.device || '—'}</option>}
+                      {devices.map(d => <option key={d.id} value={d.id}>{d.id}</option>)}
+                      <option value={SELECTOR_OPTION}>Selector…</option>
+                    </select>
+                    <input
+                      value={event.type}
+                      placeholder="EVENT_TYPE"
+                      onChange={(e) => updateEvent(index, { type: e.target.value.toUpperCase() })}
+                      className={`col-span-3 px-2 py-1 bg-slate-900 rounded font-mono ${eventHasError(index, 'type') ? 'ring-1 ring-red-500' : ''}`}
+                    />
+                    <input
+                      value={event.value ?? ''}
+                      placeholder="value"
+                      onChange={(e) => {
+                        const raw = e.target.value;
+                        const num = Number(raw);
+                        updateEvent(index, { value: raw === '' ? undefined : Number.isNaN(num) ? raw : num });
+                      }}
+                      className="col-span-2 px-2 py-1 bg-slate-900 rounded"
+                    />
+                    <select
+                      value={event.severity}
+                      onChange={(e) => updateEvent(index, { severity: e.target.value })}
+                      className={`col-span-2 px-2 py-1 bg-slate-900 rounded ${eventHasError(index, 'severity') ? 'ring-1 ring-red-500' : ''}`}
+                    >
+                      {!(event.severity in SEVERITY_COLORS) && <option value={event.severity}>{event.severity || '—'}</option>}
+                      {Object.keys(SEVERITY_COLORS).map(s => <option key={s} value={s}>{s}</option>)}
+                    </select>
+                    <div className="col-span-1 flex gap-1 justify-end">
+                      <button onClick={() => moveEvent(index, -1)} title="Move up" className="text-slate-400 hover:text-white">
+                        <ArrowUp className="w-4 h-4" />
+                      </button>
+                      <button onClick={() => moveEvent(index, 1)} title="Move down" className="text-slate-400 hover:text-white">
+                        <ArrowDown className="w-4 h-4" />
+                      </button>
+                      <button onClick={() => deleteEvent(index)} title="Delete event" className="text-slate-400 hover:text-red-400">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                    {isSelectorEvent(event) && (
+                      <div className="col-span-12 flex items-center gap-2">
+                        <input
+                          key={formatSelector(event.selector)}
+                          defaultValue={formatSelector(event.selector)}
+                          placeholder="type=TRX gantry=GANTRY-2"
+                          onBlur={(e) => applySelector(index, e.target.value)}
+                          onKeyDown={(e) => { if (e.key === 'Enter') applySelector(index, e.currentTarget.value); }}
+                          className={`flex-1 px-2 py-1 bg-slate-900 rounded font-mono ${selectorError?.index === index ? 'ring-1 ring-red-500' : ''}`}
+                        />
+                        <span className="text-xs text-slate-400">
+                          {selectorError?.index === index ? selectorError.message : `${selectDevices(event.selector, devices).length} devices`}
+                        </span>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Validation & Actions */}
+            <div className="bg-slate-800/50 rounded-xl p-6 border border-slate-700 space-y-4">
+              {errors.length > 0 ? (
+                <ul className="space-y-1 text-sm text-red-300">
+                  {errors.map((error, idx) => <li key={idx}>{error.message}</li>)}
+                </ul>
+              ) : (
+                <p className="text-sm text-green-300">Scenario is valid.</p>
+              )}
+              <div className="flex gap-2">
+                <button
+                  onClick={handleSave}
+                  disabled={errors.length > 0}
+                  className="px-4 py-2 bg-cyan-600 hover:bg-cyan-700 rounded-lg flex items-center gap-2 disabled:opacity-50"
+                >
+                  <Save className="w-4 h-4" />
+                  Save Scenario
+                </button>
+                <button
+                  onClick={() => exportScenarios([draft], `${draft.id}.json`)}
+                  disabled={errors.length > 0}
+                  className="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg flex items-center gap-2 disabled:opacity-50"
+                >
+                  <Download className="w-4 h-4" />
+                  Export
+                </button>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ScenarioEditor;
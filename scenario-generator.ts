@@ -0,0 +1,280 @@
+// Seeded scenario generation for chaos testing. A template turns parameters
+// into events; any parameter may be given as a [min, max] range (or a list of
+// choices), which is sampled from the seed. The same seed, template and
+// parameters always give the same scenario, so every failure is reproducible.
+
+import { DEVICE_TYPES } from './roadside-data';
+import { FAULT_KINDS, createFaultEvent, faultTargets } from './fault-injection';
+import { runTestCase } from './test-runner';
+
+export const DEFAULT_DURATION = 120;
+
+// mulberry32: small, fast and identical on every platform
+export const createRandom = (seed) => {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const between = (min, max) => min + next() * (max - min);
+  const int = (min, max) => Math.floor(between(min, max + 1));
+  const pick = (list) => list[Math.floor(next() * list.length)];
+  return { next, between, int, pick };
+};
+
+// Faults the chaos template draws from, with a fixed value or a [min, max] range
+export const FAULT_CATALOGUE = {
+  kill: { value: 'chaos kill' },
+  restore: { value: 'chaos restore' },
+  drop: {},
+  reconnect: {},
+  spike: { value: [500, 10000] },
+  drift: { value: [0.005, 0.2] }
+};
+
+const round = (value, step) => Math.round(value / step) * step;
+const generatedEvent = (time, device, type, severity, value = undefined) =>
+  ({ time: round(time, 0.1), device, type, ...(value !== undefined && { value }), severity });
+
+const devicesOfType = (site, type) => site.devices.filter(d => d.type === type);
+
+const TARGET_TYPES = Object.keys(DEVICE_TYPES);
+
+// params: { key: { label, default, integer?, min?, choices? } }; without
+// choices a parameter is numeric
+// build(params, site, random, duration) => events
+export const SCENARIO_TEMPLATES = {
+  flood: {
+    name: 'Message flood',
+    params: {
+      deviceType: { label: 'Target type', default: 'TRX', choices: TARGET_TYPES },
+      rate: { label: 'Flood rate (msg/s)', default: [1000, 10000], integer: true, min: 1 },
+      start: { label: 'Start (s)', default: [0, 30], integer: true, min: 0 },
+      hold: { label: 'Hold (s)', default: [20, 90], integer: true, min: 0 }
+    },
+    build: ({ deviceType, rate, start, hold }, site, random) => {
+      const targets = devicesOfType(site, deviceType);
+      if (targets.length === 0) return [];
+      const device = random.pick(targets).id;
+      return [
+        generatedEvent(start, device, 'MESSAGE_FLOOD', 'HIGH', rate),
+        generatedEvent(start + hold, device, 'RECOVERY', 'LOW', 'flood ended')
+      ];
+    }
+  },
+  drift: {
+    name: 'Clock drift',
+    params: {
+      deviceType: { label: 'Target type', default: 'MOXA', choices: TARGET_TYPES },
+      drift: { label: 'Drift (s/s)', default: [0.005, 0.1] },
+      start: { label: 'Start (s)', default: [0, 30], integer: true, min: 0 },
+      hold: { label: 'Drift for (s)', default: [10, 80], integer: true, min: 0 }
+    },
+    build: ({ deviceType, drift, start, hold }, site, random) => {
+      const targets = devicesOfType(site, deviceType);
+      if (targets.length === 0) return [];
+      const device = random.pick(targets).id;
+      return [
+        generatedEvent(start, device, 'TIME_SYNC_DRIFT', 'MEDIUM', round(drift, 0.001)),
+        generatedEvent(start + hold, device, 'SYNC_RESTORED', 'LOW')
+      ];
+    }
+  },
+  outage: {
+    name: 'Device outage',
+    params: {
+      deviceType: { label: 'Target type', default: 'VDC', choices: TARGET_TYPES },
+      start: { label: 'Start (s)', default: [0, 60], integer: true, min: 0 },
+      downtime: { label: 'Downtime (s)', default: [5, 60], integer: true, min: 0 }
+    },
+    build: ({ deviceType, start, downtime }, site, random) => {
+      const targets = devicesOfType(site, deviceType);
+      if (targets.length === 0) return [];
+      const device = random.pick(targets).id;
+      return [
+        generatedEvent(start, device, 'DEVICE_FAILURE', 'CRITICAL'),
+        generatedEvent(start + downtime, device, 'RECOVERY', 'LOW', 'device restored')
+      ];
+    }
+  },
+  chaos: {
+    name: 'Random faults',
+    params: {
+      events: { label: 'Fault count', default: [4, 16], integer: true, min: 0 }
+    },
+    // Faults drawn from the catalogue at random times and targets
+    build: ({ events }, site, random, duration) => {
+      const kinds = Object.keys(FAULT_CATALOGUE).filter(kind => faultTargets(kind, site).length > 0);
+      if (kinds.length === 0) return [];
+      return Array.from({ length: events }, () => {
+        const kind = random.pick(kinds);
+        const { value: spec } = FAULT_CATALOGUE[kind];
+        const value = !Array.isArray(spec) ? spec
+          : Number.isInteger(FAULT_KINDS[kind].value) ? random.int(spec[0], spec[1])
+          : round(random.between(spec[0], spec[1]), 0.001);
+        const { manual, ...event } = createFaultEvent(kind, random.pick(faultTargets(kind, site)).id, random.between(0, duration), site, value);
+        return event;
+      });
+    }
+  }
+};
+
+const paramValueProblem = (key, spec, value) => {
+  if (spec.choices) {
+    const values = Array.isArray(value) ? value : [value];
+    const unknown = values.find(v => !spec.choices.includes(v));
+    return unknown === undefined ? null : `${key} "${unknown}" is not one of ${spec.choices.join(', ')}`;
+  }
+  if (Array.isArray(value) && value.length !== 2) return `${key} takes one number or a min..max range`;
+  const values = Array.isArray(value) ? value : [value];
+  if (values.some(v => typeof v !== 'number' || !Number.isFinite(v))) return `${key} must be a number or a min..max range of numbers`;
+  if (spec.integer && values.some(v => !Number.isInteger(v))) return `${key} must be a whole number`;
+  if (spec.min !== undefined && values.some(v => v < spec.min)) return `${key} must be at least ${spec.min}`;
+  if (Array.isArray(value) && value[0] > value[1]) return `${key} range ${value[0]}..${value[1]} has min above max`;
+  return null;
+};
+
+// Null when the template exists and takes these parameters, otherwise the problem
+export const templateParamsProblem = (template, params = {}) => {
+  const definition = SCENARIO_TEMPLATES[template];
+  if (!definition) return `Unknown template "${template}"; expected one of ${Object.keys(SCENARIO_TEMPLATES).join(', ')}`;
+  const keys = Object.keys(definition.params);
+  const unknown = Object.keys(params).find(key => !keys.includes(key));
+  if (unknown !== undefined) return `Unknown parameter "${unknown}" for ${template}; expected ${keys.join(', ')}`;
+  for (const key of Object.keys(params)) {
+    const problem = paramValueProblem(key, definition.params[key], params[key]);
+    if (problem) return problem;
+  }
+  return null;
+};
+
+// Fixed values stay as given; ranges and choice lists are sampled
+const resolveParams = (template, params, random) => Object.fromEntries(Object.keys(template.params).map(key => {
+  const spec = template.params[key];
+  const given = params[key] ?? spec.default;
+  if (!Array.isArray(given)) return [key, given];
+  if (typeof given[0] !== 'number') return [key, random.pick(given)];
+  return [key, spec.integer ? random.int(given[0], given[1]) : random.between(given[0], given[1])];
+}));
+
+// FNV-1a over the text, in base 36: short enough for an ID, stable everywhere
+const shortHash = (text) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+  return (hash >>> 0).toString(36);
+};
+
+// Throws on an unknown template or parameters it does not take
+export const generateScenario = (seed, site, { template = 'chaos', params = {}, duration = DEFAULT_DURATION } = {}) => {
+  const problem = templateParamsProblem(template, params);
+  if (problem) throw new Error(problem);
+  const definition = SCENARIO_TEMPLATES[template];
+  const random = createRandom(seed);
+  const resolved = resolveParams(definition, params, random);
+  const events = definition.build(resolved, site, random, duration)
+    .filter(event => event.time <= duration)
+    .sort((a, b) => a.time - b.time);
+  return {
+    // The same seed with other parameters or another length is another scenario
+    id: `GEN-${template}-${seed}-${shortHash(JSON.stringify({ params: resolved, duration }))}`,
+    name: `${definition.name} #${seed}`,
+    duration,
+    events,
+    generator: { seed, template, params: resolved }
+  };
+};
+
+// Delta debugging (ddmin) over the event list: drops chunks of events while
+// `fails` keeps returning true, ending with a list where no single event can go.
+// `testId` names the failing test, so each test's minimal scenario gets its own ID.
+export const shrinkScenario = (scenario, fails, testId = null) => {
+  const withEvents = (events) => ({ ...scenario, events });
+  let events = scenario.events;
+  let chunks = 2;
+  while (events.length > 0) {
+    const size = Math.ceil(events.length / chunks);
+    let reduced = false;
+    for (let start = 0; start < events.length; start += size) {
+      const rest = [...events.slice(0, start), ...events.slice(start + size)];
+      if (fails(withEvents(rest))) {
+        events = rest;
+        chunks = Math.max(chunks - 1, 2);
+        reduced = true;
+        break;
+      }
+    }
+    if (!reduced) {
+      if (size === 1) break;
+      chunks = Math.min(events.length, chunks * 2);
+    }
+  }
+  return {
+    ...withEvents(events),
+    id: testId ? `${scenario.id}-${testId}-min` : `${scenario.id}-min`,
+    name: testId ? `${scenario.name} (minimal, ${testId})` : `${scenario.name} (minimal)`,
+    generator: { ...scenario.generator, shrunkFrom: scenario.events.length }
+  };
+};
+
+// The test case run against a generated scenario instead of its own
+const runAgainst = (testCase, scenario, workspace) =>
+  runTestCase({ ...testCase, scenario: scenario.id }, [scenario], workspace);
+
+// Shrinking must keep the original failure, not trade it for another one; times
+// and values in the message may change as events go, device IDs may not
+const failureSignature = (failure) => `${failure.assertion} | ${failure.message.replace(/(?<![\w-])\d+(\.\d+)?/g, '#')}`;
+
+// Plays `count` scenarios with seeds seed, seed + 1, ... through the test
+// assertions. Tests that already fail on a scenario without events say nothing
+// about the generated faults, so they are set aside in `skipped` and not run.
+// Each failure carries the seed and the shrunk scenario; throws like generateScenario:
+//   { skipped: [{ test, failure }], results: [{ seed, scenario, results, failures: [{ test, failure, minimal }] }] }
+export const runChaosBatch = (testCases, workspace, { seed = 1, count = 20, template = 'chaos', params = {}, duration = DEFAULT_DURATION } = {}) => {
+  const problem = templateParamsProblem(template, params);
+  if (problem) throw new Error(problem);
+  const quiet = { id: `GEN-${template}-quiet`, name: 'No events', duration, events: [] };
+  const skipped = testCases
+    .map(testCase => ({ testCase, result: runAgainst(testCase, quiet, workspace) }))
+    .filter(({ result }) => result.status !== 'passed')
+    .map(({ testCase, result }) => ({ test: { id: testCase.id, name: testCase.name }, failure: result.failure }));
+  const checked = testCases.filter(testCase => !skipped.some(s => s.test.id === testCase.id));
+
+  const results = Array.from({ length: count }, (_, i) => {
+    const scenarioSeed = seed + i;
+    const scenario = generateScenario(scenarioSeed, workspace, { template, params, duration });
+    const outcomes = checked.map(testCase => runAgainst(testCase, scenario, workspace));
+    const failures = outcomes
+      .map((result, idx) => ({ result, testCase: checked[idx] }))
+      .filter(({ result }) => result.status === 'failed')
+      .map(({ result, testCase }) => ({
+        test: { id: testCase.id, name: testCase.name },
+        failure: result.failure,
+        minimal: shrinkScenario(scenario, candidate => {
+          const outcome = runAgainst(testCase, candidate, workspace);
+          return outcome.status === 'failed' && failureSignature(outcome.failure) === failureSignature(result.failure);
+        }, testCase.id)
+      }));
+    return { seed: scenarioSeed, scenario, results: outcomes, failures };
+  });
+  return { skipped, results };
+};
+
+// Parameter text as typed: "5000", "1000..10000" (range) or "TRX|VDC" (choices)
+export const parseParamValue = (text) => {
+  const parse = (v) => (v.trim() !== '' && !Number.isNaN(Number(v)) ? Number(v) : v.trim());
+  if (text.includes('..')) return text.split('..').map(parse);
+  if (text.includes('|')) return text.split('|').map(parse);
+  return parse(text);
+};
+
+export const formatParamValue = (value) =>
+  (Array.isArray(value) ? value.join(typeof value[0] === 'number' ? '..' : '|') : String(value));
+
+// "key=value,key=min..max,key=a|b" from the CLI into template parameters
+export const parseTemplateParams = (text) => Object.fromEntries((text || '').split(',').filter(Boolean).map(pair => {
+  const [key, raw = ''] = pair.split('=');
+  return [key.trim(), parseParamValue(raw)];
+}));
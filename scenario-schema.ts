@@ -0,0 +1,72 @@
+// Scenario validation and the versioned JSON file format used for
+// keeping scenarios under version control.
+
+import { SEVERITY_COLORS } from './roadside-data';
+import { formatSelector, selectDevices, validateSelector } from './site-hierarchy';
+import { parseVersionedFile } from './versioned-file';
+
+export const SCENARIO_FILE_FORMAT = 'roadside-scenarios';
+export const SCENARIO_FILE_VERSION = 1;
+
+// Returns a list of { index, field, message }; index is null for scenario-level problems
+export const validateScenario = (scenario, devices) => {
+  const errors = [];
+  const deviceIds = new Set(devices.map(d => d.id));
+  const severities = Object.keys(SEVERITY_COLORS);
+
+  if (!String(scenario.id || '').trim()) {
+    errors.push({ index: null, field: 'id', message: 'Scenario ID is required' });
+  }
+  if (!String(scenario.name || '').trim()) {
+    errors.push({ index: null, field: 'name', message: 'Name is required' });
+  }
+  if (!(typeof scenario.duration === 'number' && scenario.duration > 0)) {
+    errors.push({ index: null, field: 'duration', message: 'Duration must be a positive number of seconds' });
+  }
+  if (!Array.isArray(scenario.events)) {
+    errors.push({ index: null, field: 'events', message: 'Events must be a list' });
+    return errors;
+  }
+
+  scenario.events.forEach((event, index) => {
+    if (typeof event.time !== 'number' || Number.isNaN(event.time) || event.time < 0) {
+      errors.push({ index, field: 'time', message: `Event ${index + 1}: time must be 0 or later` });
+    } else if (event.time > scenario.duration) {
+      errors.push({ index, field: 'time', message: `Event ${index + 1}: time ${event.time}s is past the ${scenario.duration}s duration` });
+    }
+    // An event names one device or selects devices by site, group, type and lane
+    if (event.selector && !event.device) {
+      const problem = validateSelector(event.selector);
+      if (problem) {
+        errors.push({ index, field: 'device', message: `Event ${index + 1}: ${problem}` });
+      } else if (selectDevices(event.selector, devices).length === 0) {
+        errors.push({ index, field: 'device', message: `Event ${index + 1}: no device matches "${formatSelector(event.selector)}"` });
+      }
+    } else if (!deviceIds.has(event.device)) {
+      errors.push({ index, field: 'device', message: `Event ${index + 1}: device "${event.device}" is not in the inventory` });
+    }
+    if (!String(event.type || '').trim()) {
+      errors.push({ index, field: 'type', message: `Event ${index + 1}: event type is required` });
+    }
+    if (!severities.includes(event.severity)) {
+      errors.push({ index, field: 'severity', message: `Event ${index + 1}: severity must be one of ${severities.join(', ')}` });
+    }
+  });
+
+  return errors;
+};
+
+export const serializeScenarios = (scenarios) => JSON.stringify({
+  format: SCENARIO_FILE_FORMAT,
+  version: SCENARIO_FILE_VERSION,
+  scenarios
+}, null, 2);
+
+// Throws on files that are not scenario files, come from a newer version or repeat a scenario ID
+export const parseScenarioFile = (text) => {
+  const { scenarios } = parseVersionedFile(text, SCENARIO_FILE_FORMAT, SCENARIO_FILE_VERSION, 'scenarios', 'scenario file');
+  const ids = scenarios.map(s => s?.id).filter(Boolean);
+  const repeated = ids.find((id, idx) => ids.indexOf(id) !== idx);
+  if (repeated) throw new Error(`Scenario ID ${repeated} appears more than once`);
+  return scenarios;
+};
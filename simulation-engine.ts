@@ -0,0 +1,122 @@
+// Headless scenario playback. Device, link and log state at any time t is
+// derived from the scenario and the site alone, so seeking in either direction,
+// stepping and replays always give the same result.
+
+import { LINK_EVENTS, linkStatus } from './topology';
+import { expandEvents } from './fault-rules';
+import { resolveSelectors } from './site-hierarchy';
+
+export const statusForSeverity = (severity) =>
+  severity === 'CRITICAL' ? 'alarm' : severity === 'HIGH' ? 'degraded' : 'normal';
+
+// Rule-derived events may set a status explicitly
+const statusForEvent = (event) => event.status || statusForSeverity(event.severity);
+
+// Link events change the link, not the device they are logged against
+const setsDeviceStatus = (event) =>
+  !!event.status || (event.type !== LINK_EVENTS.down && event.type !== LINK_EVENTS.up);
+
+export const formatEventMessage = (event) => `${event.type}: ${event.value || 'Event triggered'}`;
+
+const toLogEntry = (event, seq, epoch) => ({
+  id: seq,
+  timestamp: new Date(epoch + event.time * 1000).toISOString(),
+  device: event.device,
+  type: event.type,
+  level: event.severity,
+  message: formatEventMessage(event),
+  time: event.time,
+  ...(event.cause && { cause: event.cause }),
+  ...(event.manual && { manual: true })
+});
+
+export const createSimulation = (scenario, devices, { links = [], rules = [], epoch = 0 } = {}) => {
+  const timeline = expandEvents(resolveSelectors(scenario?.events || [], devices), { devices, links, rules });
+  const duration = scenario?.duration || 0;
+
+  const initialState = () => ({
+    cursor: 0,
+    statuses: new Map(devices.map(d => [d.id, d.status])),
+    downLinks: new Set(),
+    entries: [],
+    changes: [],
+    snapshot: null
+  });
+  let state = initialState();
+
+  // Number of events that have fired by time t (event.time <= t)
+  const cursorAt = (t) => {
+    let lo = 0;
+    let hi = timeline.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (timeline[mid].time <= t) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  };
+
+  const applyStatus = (statuses, changes, event) => {
+    if (!setsDeviceStatus(event)) return;
+    const from = statuses.get(event.device);
+    const to = statusForEvent(event);
+    if (statuses.has(event.device) && from !== to) {
+      statuses.set(event.device, to);
+      changes.push({ time: event.time, device: event.device, from, to });
+    }
+  };
+
+  const advanceTo = (cursor) => {
+    for (let i = state.cursor; i < cursor; i++) {
+      const event = timeline[i];
+      if (event.type === LINK_EVENTS.down) state.downLinks.add(event.value);
+      if (event.type === LINK_EVENTS.up) state.downLinks.delete(event.value);
+      applyStatus(state.statuses, state.changes, event);
+      state.entries.push(toLogEntry(event, i, epoch));
+    }
+    state.cursor = cursor;
+    state.snapshot = null;
+  };
+
+  // Moving forward replays only the new events; moving backward replays from zero
+  const stateAt = (t) => {
+    const cursor = cursorAt(t);
+    if (cursor < state.cursor) state = initialState();
+    if (cursor > state.cursor) advanceTo(cursor);
+    if (!state.snapshot) {
+      state.snapshot = {
+        cursor,
+        devices: devices.map(d => ({ ...d, status: state.statuses.get(d.id) })),
+        links: links.map(l => ({ ...l, status: linkStatus(l, state.statuses, state.downLinks) })),
+        // Newest first, like the Event Log
+        logs: state.entries.slice().reverse(),
+        // Status transitions so far, oldest first
+        changes: state.changes.slice()
+      };
+    }
+    return { ...state.snapshot, time: t };
+  };
+
+  const nextEventTime = (t) => {
+    const event = timeline[cursorAt(t)];
+    return event ? event.time : null;
+  };
+
+  const previousEventTime = (t) => {
+    const before = timeline.filter(e => e.time < t);
+    return before.length ? before[before.length - 1].time : null;
+  };
+
+  // Every status transition in the scenario, oldest first, without moving the playback state
+  let allChanges = null;
+  const statusChanges = () => {
+    if (!allChanges) {
+      const statuses = new Map(devices.map(d => [d.id, d.status]));
+      allChanges = [];
+      timeline.forEach(event => applyStatus(statuses, allChanges, event));
+    }
+    return allChanges;
+  };
+
+  return { duration, timeline, stateAt, nextEventTime, previousEventTime, statusChanges };
+};
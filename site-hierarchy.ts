@@ -0,0 +1,105 @@
+// Site hierarchy: site → gantry or shelter → device. Each device carries
+//   site: site ID, parent: the Gantry or Shelter it is mounted in (or null), lane?: lane number
+// Selectors pick devices by place instead of by ID:
+//   { site?, gantry?, shelter?, type?, lane? }   written "type=TRX gantry=GANTRY-2"
+
+export const DEFAULT_SITE = { id: 'SITE-1', name: 'Site 1' };
+
+// Device types that other devices are mounted in
+export const GROUP_TYPES = ['Gantry', 'Shelter'];
+
+export const SELECTOR_KEYS = ['site', 'gantry', 'shelter', 'type', 'lane'];
+
+// Devices saved before sites existed belong to the default site
+export const siteOf = (device) => device.site || DEFAULT_SITE.id;
+
+export const nextSiteId = (sites) => {
+  let n = sites.length;
+  let id;
+  do { id = `SITE-${++n}`; } while (sites.some(s => s.id === id));
+  return id;
+};
+
+// Per site: { site, groups: [{ group, devices }], ungrouped }
+export const siteHierarchy = (sites, devices) => sites.map(site => {
+  const members = devices.filter(d => siteOf(d) === site.id);
+  const groups = members
+    .filter(d => GROUP_TYPES.includes(d.type))
+    .map(group => ({ group, devices: members.filter(d => d.parent === group.id) }));
+  const grouped = new Set(groups.flatMap(g => [g.group.id, ...g.devices.map(d => d.id)]));
+  return { site, groups, ungrouped: members.filter(d => !grouped.has(d.id)) };
+});
+
+// Returns a list of { field, message }; the site check is skipped without a site list
+export const validatePlacement = (device, devices, sites = null) => {
+  const errors = [];
+  if (sites && !sites.some(s => s.id === siteOf(device))) {
+    errors.push({ field: 'site', message: `Site "${device.site}" does not exist` });
+  }
+  if (device.parent) {
+    const parent = devices.find(d => d.id === device.parent);
+    if (GROUP_TYPES.includes(device.type)) {
+      errors.push({ field: 'parent', message: `A ${device.type} is not mounted in another device` });
+    } else if (!parent || !GROUP_TYPES.includes(parent.type)) {
+      errors.push({ field: 'parent', message: `"${device.parent}" is not a gantry or shelter` });
+    } else if (siteOf(parent) !== siteOf(device)) {
+      errors.push({ field: 'parent', message: `${parent.id} is at another site` });
+    }
+  }
+  if (device.lane !== undefined && device.lane !== null) {
+    const parent = devices.find(d => d.id === device.parent);
+    if (!Number.isInteger(device.lane) || device.lane < 1) {
+      errors.push({ field: 'lane', message: 'Lane must be a whole number from 1' });
+    } else if (parent?.type === 'Gantry' && device.lane > parent.config?.lanes) {
+      errors.push({ field: 'lane', message: `${parent.id} has only ${parent.config.lanes} lanes` });
+    }
+  }
+  return errors;
+};
+
+const mountedIn = (device, groupId, type, byId) => {
+  const parent = byId.get(device.parent);
+  return parent?.type === type && parent.id === groupId;
+};
+
+export const selectDevices = (selector, devices) => {
+  const byId = new Map();
+  devices.forEach(d => byId.set(d.id, d));
+  return devices.filter(device =>
+    (!selector.site || siteOf(device) === selector.site) &&
+    (!selector.type || device.type === selector.type) &&
+    (selector.lane === undefined || device.lane === Number(selector.lane)) &&
+    (!selector.gantry || mountedIn(device, selector.gantry, 'Gantry', byId)) &&
+    (!selector.shelter || mountedIn(device, selector.shelter, 'Shelter', byId)));
+};
+
+// Null when the selector is usable, otherwise the problem
+export const validateSelector = (selector) => {
+  if (!selector || typeof selector !== 'object') return 'Selector must be an object';
+  const unknown = Object.keys(selector).filter(key => !SELECTOR_KEYS.includes(key));
+  if (unknown.length > 0) return `Unknown selector key "${unknown[0]}"; use ${SELECTOR_KEYS.join(', ')}`;
+  if (Object.keys(selector).length === 0) return 'Selector is empty';
+  return null;
+};
+
+export const formatSelector = (selector) =>
+  SELECTOR_KEYS.filter(key => selector[key] !== undefined).map(key => `${key}=${selector[key]}`).join(' ');
+
+// Throws on malformed text or unknown keys
+export const parseSelector = (text) => {
+  const selector = {};
+  text.trim().split(/\s+/).filter(Boolean).forEach(part => {
+    const [key, value] = part.split('=');
+    if (!value) throw new Error(`"${part}" should look like key=value`);
+    selector[key] = key === 'lane' ? Number(value) : value;
+  });
+  const problem = validateSelector(selector);
+  if (problem) throw new Error(problem);
+  return selector;
+};
+
+// Scenario events with a selector become one event per matching device, in inventory order
+export const resolveSelectors = (events, devices) => events.flatMap(event =>
+  (event.selector && !event.device
+    ? selectDevices(event.selector, devices).map(device => ({ ...event, device: device.id }))
+    : [event]));
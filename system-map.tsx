@@ -0,0 +1,241 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ZoomIn, ZoomOut, Maximize } from 'lucide-react';
+import { DEVICE_TYPES, LINK_TYPES } from './roadside-data';
+import { DEVICE_RADIUS, createHitIndex, fitView, siteOutlines, toWorld, visibleBounds, zoomAt } from './map-view';
+
+const MAP_HEIGHT = 500;
+// Pointer travel (px) before a press counts as a drag rather than a click
+const DRAG_THRESHOLD = 4;
+// Below this zoom only the device circles are drawn
+const LABEL_ZOOM = 0.45;
+
+const OUTLINE_COLORS = { normal: '#475569', degraded: '#f59e0b', alarm: '#ef4444' };
+
+const inBounds = (bounds, x, y) => x >= bounds.minX && x <= bounds.maxX && y >= bounds.minY && y <= bounds.maxY;
+
+// With `sites`, each site is outlined in the colour of its worst device status
+const SystemMap = ({ devices, links, sites = null, highlighted, selectedId, onSelect, onMove }) => {
+  const wrapperRef = useRef(null);
+  const canvasRef = useRef(null);
+  const dragRef = useRef(null);
+  const fittedRef = useRef(false);
+  const [width, setWidth] = useState(0);
+  const [view, setView] = useState({ x: 0, y: 0, scale: 1 });
+  const [dragPosition, setDragPosition] = useState(null);
+  const [hover, setHover] = useState(null);
+
+  const hitIndex = useMemo(() => createHitIndex(devices), [devices]);
+
+  // The device being dragged is drawn where the pointer is until it is dropped
+  const placed = useMemo(() => (dragPosition
+    ? devices.map(d => (d.id === dragPosition.id ? { ...d, location: { x: dragPosition.x, y: dragPosition.y } } : d))
+    : devices), [devices, dragPosition]);
+
+  useEffect(() => {
+    const wrapper = wrapperRef.current;
+    if (!wrapper) return;
+    const observer = new ResizeObserver(entries => setWidth(Math.floor(entries[0].contentRect.width)));
+    observer.observe(wrapper);
+    return () => observer.disconnect();
+  }, []);
+
+  // Fit the site once it has loaded; after that the view is the user's
+  useEffect(() => {
+    if (fittedRef.current || devices.length === 0 || width === 0) return;
+    fittedRef.current = true;
+    setView(fitView(devices, width, MAP_HEIGHT));
+  }, [devices, width]);
+
+  // React registers wheel listeners as passive, which would let the page scroll
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const onWheel = (e) => {
+      e.preventDefault();
+      const rect = canvas.getBoundingClientRect();
+      setView(prev => zoomAt(prev, Math.exp(-e.deltaY * 0.0015), e.clientX - rect.left, e.clientY - rect.top));
+    };
+    canvas.addEventListener('wheel', onWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', onWheel);
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || width === 0) return;
+    const ratio = window.devicePixelRatio || 1;
+    const ctx = canvas.getContext('2d');
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.setTransform(ratio * view.scale, 0, 0, ratio * view.scale, ratio * view.x, ratio * view.y);
+
+    const bounds = visibleBounds(view, width, MAP_HEIGHT);
+    const byId = new Map();
+    placed.forEach(d => byId.set(d.id, d));
+
+    (sites ? siteOutlines(sites, placed) : []).forEach(outline => {
+      ctx.strokeStyle = OUTLINE_COLORS[outline.status];
+      ctx.lineWidth = outline.status === 'normal' ? 2 : 4;
+      ctx.setLineDash([12, 8]);
+      ctx.strokeRect(outline.minX, outline.minY, outline.maxX - outline.minX, outline.maxY - outline.minY);
+      ctx.setLineDash([]);
+      ctx.fillStyle = OUTLINE_COLORS[outline.status];
+      ctx.font = 'bold 14px Arial';
+      ctx.textAlign = 'left';
+      ctx.fillText(outline.site.name, outline.minX + 8, outline.minY + 20);
+    });
+
+    // Links, styled by type; failing links turn red and dashed
+    links.forEach(link => {
+      const from = byId.get(link.from);
+      const to = byId.get(link.to);
+      if (!from || !to) return;
+      if (Math.max(from.location.x, to.location.x) < bounds.minX || Math.min(from.location.x, to.location.x) > bounds.maxX ||
+          Math.max(from.location.y, to.location.y) < bounds.minY || Math.min(from.location.y, to.location.y) > bounds.maxY) return;
+      const style = LINK_TYPES[link.type];
+      ctx.strokeStyle = link.status === 'down' ? '#ef4444' : link.status === 'degraded' ? '#f59e0b' : style.color;
+      ctx.setLineDash(link.status === 'down' ? [6, 6] : style.dash);
+      ctx.lineWidth = link.type === 'ethernet' ? 3 : 2;
+      ctx.beginPath();
+      ctx.moveTo(from.location.x, from.location.y);
+      ctx.lineTo(to.location.x, to.location.y);
+      ctx.stroke();
+    });
+    ctx.setLineDash([]);
+
+    const labelled = view.scale >= LABEL_ZOOM;
+    placed.forEach(device => {
+      const { x, y } = device.location;
+      if (!inBounds(bounds, x, y)) return;
+      const typeInfo = DEVICE_TYPES[device.type];
+
+      ctx.beginPath();
+      ctx.arc(x, y, DEVICE_RADIUS, 0, 2 * Math.PI);
+      ctx.fillStyle = device.status === 'alarm' ? '#ef4444' :
+                      device.status === 'degraded' ? '#f59e0b' : typeInfo.color;
+      ctx.fill();
+      ctx.strokeStyle = '#fff';
+      ctx.lineWidth = 3;
+      ctx.stroke();
+
+      // Ring around devices related to the selected Event Log entry
+      if (highlighted?.has(device.id)) {
+        ctx.beginPath();
+        ctx.arc(x, y, DEVICE_RADIUS + 8, 0, 2 * Math.PI);
+        ctx.strokeStyle = '#22d3ee';
+        ctx.lineWidth = 4;
+        ctx.stroke();
+      }
+
+      if (device.id === selectedId) {
+        ctx.beginPath();
+        ctx.arc(x, y, DEVICE_RADIUS + 14, 0, 2 * Math.PI);
+        ctx.strokeStyle = '#facc15';
+        ctx.setLineDash([6, 4]);
+        ctx.lineWidth = 3;
+        ctx.stroke();
+        ctx.setLineDash([]);
+      }
+
+      if (!labelled) return;
+      ctx.fillStyle = '#fff';
+      ctx.font = '20px Arial';
+      ctx.textAlign = 'center';
+      ctx.fillText(typeInfo.icon, x, y + 7);
+
+      ctx.fillStyle = '#1e293b';
+      ctx.font = 'bold 12px Arial';
+      ctx.fillText(device.id, x, y + 50);
+    });
+  }, [placed, links, sites, highlighted, selectedId, view, width]);
+
+  const pointerAt = (e) => {
+    const rect = canvasRef.current.getBoundingClientRect();
+    return { sx: e.clientX - rect.left, sy: e.clientY - rect.top };
+  };
+
+  const handlePointerDown = (e) => {
+    const { sx, sy } = pointerAt(e);
+    const world = toWorld(view, sx, sy);
+    const device = hitIndex.at(world.x, world.y);
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setHover(null);
+    dragRef.current = device
+      ? { id: device.id, grab: { x: world.x - device.location.x, y: world.y - device.location.y }, sx, sy, moved: false }
+      : { id: null, origin: view, sx, sy, moved: false };
+  };
+
+  const handlePointerMove = (e) => {
+    const { sx, sy } = pointerAt(e);
+    const drag = dragRef.current;
+    if (!drag) {
+      const world = toWorld(view, sx, sy);
+      const device = hitIndex.at(world.x, world.y);
+      setHover(device ? { id: device.id, sx, sy } : null);
+      return;
+    }
+    if (!drag.moved && Math.hypot(sx - drag.sx, sy - drag.sy) < DRAG_THRESHOLD) return;
+    drag.moved = true;
+    if (drag.id) {
+      const world = toWorld(view, sx, sy);
+      setDragPosition({ id: drag.id, x: world.x - drag.grab.x, y: world.y - drag.grab.y });
+    } else {
+      setView({ ...drag.origin, x: drag.origin.x + sx - drag.sx, y: drag.origin.y + sy - drag.sy });
+    }
+  };
+
+  const handlePointerUp = () => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag) return;
+    if (drag.id && drag.moved && dragPosition) {
+      onMove(drag.id, { x: Math.round(dragPosition.x), y: Math.round(dragPosition.y) });
+    } else if (!drag.moved) {
+      onSelect(drag.id && drag.id !== selectedId ? drag.id : null);
+    }
+    setDragPosition(null);
+  };
+
+  const zoomCentre = (factor) => setView(prev => zoomAt(prev, factor, width / 2, MAP_HEIGHT / 2));
+  const hovered = hover && devices.find(d => d.id === hover.id);
+  const ratio = typeof window === 'undefined' ? 1 : window.devicePixelRatio || 1;
+
+  return (
+    <div ref={wrapperRef} className="relative">
+      <canvas
+        ref={canvasRef}
+        width={width * ratio}
+        height={MAP_HEIGHT * ratio}
+        style={{ width: '100%', height: MAP_HEIGHT, cursor: dragPosition ? 'grabbing' : hover ? 'pointer' : 'grab', touchAction: 'none' }}
+        className="bg-slate-900/50 rounded-lg"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onPointerLeave={() => setHover(null)}
+      />
+      <div className="absolute top-2 right-2 flex gap-1">
+        {[
+          { icon: ZoomIn, title: 'Zoom in', onClick: () => zoomCentre(1.25) },
+          { icon: ZoomOut, title: 'Zoom out', onClick: () => zoomCentre(0.8) },
+          { icon: Maximize, title: 'Fit site', onClick: () => setView(fitView(devices, width, MAP_HEIGHT)) }
+        ].map(({ icon: Icon, title, onClick }) => (
+          <button key={title} onClick={onClick} title={title} className="p-1.5 bg-slate-800/90 hover:bg-slate-700 rounded-lg">
+            <Icon className="w-4 h-4" />
+          </button>
+        ))}
+      </div>
+      {hovered && (
+        <div
+          className="absolute pointer-events-none px-3 py-2 bg-slate-950/95 border border-slate-700 rounded-lg text-xs"
+          style={{ left: hover.sx + 14, top: hover.sy + 14 }}
+        >
+          <div className="font-mono font-bold">{hovered.id}</div>
+          <div className="text-slate-400">{DEVICE_TYPES[hovered.type].name} · {hovered.model}</div>
+          <div className="text-slate-400">Status: {hovered.status}</div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SystemMap;
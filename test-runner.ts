@@ -0,0 +1,190 @@
+// Headless test runner. A test case names a scenario and the assertions that
+// must hold over its playback:
+//   { kind: 'status', device, status, by }                       device has status at t=by
+//   { kind: 'event', device?, eventType, before? }               event occurs (by t=before)
+//   { kind: 'noEvent', device?, eventType?, severity?, after? }  no matching log (after the first `after` event)
+//   { kind: 'propagates', from: { device, status }, to: { device, status }, within }
+
+import { createSimulation } from './simulation-engine';
+import { createSimulationRun } from './run-records';
+import { baselineChecks, diffRuns } from './run-diff';
+import { parseVersionedFile } from './versioned-file';
+
+export const TEST_FILE_FORMAT = 'roadside-tests';
+export const TEST_FILE_VERSION = 1;
+
+const now = () => globalThis.performance?.now() ?? Date.now();
+
+const matchesLog = (log, { device, eventType, severity }) =>
+  (!device || log.device === device) &&
+  (!eventType || log.type === eventType) &&
+  (!severity || log.level === severity);
+
+export const describeAssertion = (assertion) => {
+  switch (assertion.kind) {
+    case 'status':
+      return `${assertion.device} status is ${assertion.status} by t=${assertion.by}s`;
+    case 'event':
+      return `${assertion.eventType} occurs${assertion.device ? ` on ${assertion.device}` : ''}` +
+        (assertion.before !== undefined ? ` by t=${assertion.before}s` : '');
+    case 'noEvent':
+      return `no ${[assertion.severity, assertion.eventType].filter(Boolean).join(' ') || 'event'} log` +
+        (assertion.device ? ` on ${assertion.device}` : '') +
+        (assertion.after ? ` after ${assertion.after}` : '');
+    case 'propagates':
+      return `${assertion.from.status} on ${assertion.from.device} propagates to ${assertion.to.device} ` +
+        `(${assertion.to.status}) within ${assertion.within}s`;
+    default:
+      return `unknown assertion "${assertion.kind}"`;
+  }
+};
+
+// Each evaluator returns null when the assertion holds, or a failure message
+const EVALUATORS = {
+  status: (assertion, { simulation }) => {
+    const device = simulation.stateAt(assertion.by).devices.find(d => d.id === assertion.device);
+    if (!device) return `${assertion.device} is not in the inventory`;
+    return device.status === assertion.status
+      ? null
+      : `${assertion.device} was ${device.status} at t=${assertion.by}s`;
+  },
+
+  event: (assertion, { logs }) => {
+    const match = logs.find(log => matchesLog(log, assertion));
+    if (!match) return `${assertion.eventType} never occurred`;
+    return assertion.before === undefined || match.time <= assertion.before
+      ? null
+      : `${assertion.eventType} first occurred at t=${match.time}s`;
+  },
+
+  noEvent: (assertion, { logs }) => {
+    let from = 0;
+    if (assertion.after) {
+      const anchor = logs.findIndex(log => log.type === assertion.after);
+      if (anchor === -1) return `${assertion.after} never occurred`;
+      from = anchor + 1;
+    }
+    const offender = logs.slice(from).find(log => matchesLog(log, assertion));
+    return offender
+      ? `${offender.level} ${offender.type} on ${offender.device} at t=${offender.time}s`
+      : null;
+  },
+
+  propagates: (assertion, { changes }) => {
+    const { from, to, within } = assertion;
+    const triggers = changes.filter(c => c.device === from.device && c.to === from.status);
+    if (triggers.length === 0) return `${from.device} never entered ${from.status}`;
+    for (const trigger of triggers) {
+      const reached = changes.find(c =>
+        c.device === to.device && c.to === to.status && c.time >= trigger.time && c.time <= trigger.time + within);
+      if (!reached) {
+        return `${to.device} did not enter ${to.status} within ${within}s of t=${trigger.time}s`;
+      }
+    }
+    return null;
+  }
+};
+
+export const runTestCase = (testCase, scenarios, { devices, links = [], rules = [] }) => {
+  const started = now();
+  const scenario = scenarios.find(s => s.id === testCase.scenario);
+  const result = { id: testCase.id, name: testCase.name, suite: testCase.suite, scenario: testCase.scenario };
+
+  if (!scenario) {
+    return {
+      ...result,
+      status: 'error',
+      duration: (now() - started) / 1000,
+      assertions: [],
+      failure: { assertion: null, message: `Scenario ${testCase.scenario} not found` }
+    };
+  }
+
+  const simulation = createSimulation(scenario, devices, { links, rules });
+  const final = simulation.stateAt(scenario.duration);
+  const context = { simulation, logs: final.logs.slice().reverse(), changes: final.changes };
+
+  const assertions = testCase.assertions.map(assertion => {
+    const evaluate = EVALUATORS[assertion.kind];
+    const message = evaluate ? evaluate(assertion, context) : `Unknown assertion kind "${assertion.kind}"`;
+    return { description: describeAssertion(assertion), passed: message === null, message };
+  });
+  const failed = assertions.find(a => !a.passed);
+
+  return {
+    ...result,
+    status: failed ? 'failed' : 'passed',
+    duration: (now() - started) / 1000,
+    assertions,
+    failure: failed ? { assertion: failed.description, message: failed.message } : null,
+    logs: final.logs,
+    changes: final.changes
+  };
+};
+
+export const runTestSuite = (testCases, scenarios, workspace) =>
+  testCases.map(testCase => runTestCase(testCase, scenarios, workspace));
+
+// Replays a golden baseline's scenario as it is now and checks that the outcome
+// still matches the recorded run. Reported like a test case.
+export const runBaselineCheck = (baseline, scenarios, workspace) => {
+  const started = now();
+  const scenarioId = baseline.scenario?.id;
+  const scenario = scenarios.find(s => s.id === scenarioId);
+  const result = {
+    id: `GOLDEN-${scenarioId}`,
+    name: `${baseline.scenario?.name || scenarioId} matches ${baseline.id}`,
+    suite: 'Golden Baselines',
+    scenario: scenarioId
+  };
+
+  if (!scenario) {
+    return {
+      ...result,
+      status: 'error',
+      duration: (now() - started) / 1000,
+      assertions: [],
+      failure: { assertion: null, message: `Scenario ${scenarioId} not found` }
+    };
+  }
+
+  const candidate = createSimulationRun(scenario, workspace);
+  const assertions = baselineChecks(diffRuns(baseline, candidate));
+  const failed = assertions.find(a => !a.passed);
+  return {
+    ...result,
+    status: failed ? 'failed' : 'passed',
+    duration: (now() - started) / 1000,
+    assertions,
+    failure: failed ? { assertion: failed.description, message: failed.message } : null,
+    logs: candidate.logs,
+    changes: candidate.changes
+  };
+};
+
+export const serializeTestSuite = (testCases) => JSON.stringify({
+  format: TEST_FILE_FORMAT,
+  version: TEST_FILE_VERSION,
+  testCases
+}, null, 2);
+
+const isName = (value) => typeof value === 'string' && value.trim() !== '';
+
+// Null when the case can be run, otherwise the problem
+const testCaseProblem = (testCase) => {
+  if (!testCase || typeof testCase !== 'object') return 'Not an object';
+  if (!isName(testCase.id)) return 'No id given';
+  if (!isName(testCase.scenario)) return 'No scenario given';
+  if (!Array.isArray(testCase.assertions)) return 'Assertions must be a list';
+  return null;
+};
+
+// Throws on files that are not test suite files, come from a newer version or hold malformed cases
+export const parseTestSuiteFile = (text) => {
+  const data = parseVersionedFile(text, TEST_FILE_FORMAT, TEST_FILE_VERSION, 'testCases', 'test suite file');
+  data.testCases.forEach((testCase, idx) => {
+    const problem = testCaseProblem(testCase);
+    if (problem) throw new Error(`${isName(testCase?.id) ? testCase.id : `Test case ${idx + 1}`}: ${problem}`);
+  });
+  return data.testCases;
+};
@@ -0,0 +1,14 @@
+import React from 'react';
+
+// Seconds along the bottom of a timeline chart `width` units wide
+const TimeAxis = ({ until, y, width }) => (
+  <g className="text-slate-500">
+    {[0, 0.25, 0.5, 0.75, 1].map(f => (
+      <text key={f} x={f * width} y={y} fontSize="10" fill="currentColor" textAnchor={f === 0 ? 'start' : f === 1 ? 'end' : 'middle'}>
+        {(f * until).toFixed(0)}s
+      </text>
+    ))}
+  </g>
+);
+
+export default TimeAxis;
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { LINK_TYPES } from './roadside-data';
+import { validateLink, nextLinkId } from './topology';
+
+const TopologyEditor = ({ devices, links, onChange }) => {
+  const [draft, setDraft] = useState({ from: '', to: '', type: 'ethernet' });
+  const [errors, setErrors] = useState([]);
+
+  const addLink = () => {
+    const link = { id: nextLinkId(links), ...draft };
+    const problems = validateLink(link, devices, links);
+    setErrors(problems);
+    if (problems.length > 0) return;
+    onChange([...links, link]);
+    setDraft({ ...draft, from: '', to: '' });
+  };
+
+  const updateLink = (id, changes) => {
+    const updated = { ...links.find(l => l.id === id), ...changes };
+    const problems = validateLink(updated, devices, links);
+    setErrors(problems);
+    if (problems.length > 0) return;
+    onChange(links.map(l => (l.id === id ? updated : l)));
+  };
+
+  return (
+    <div className="bg-slate-800/50 rounded-xl p-6 border border-slate-700 space-y-4">
+      <h3 className="text-lg font-bold">Network Links</h3>
+      <div className="space-y-2">
+        {links.map(link => (
+          <div key={link.id} className="grid grid-cols-12 gap-2 items-center p-2 bg-slate-900/50 rounded-lg text-sm">
+            <span className="col-span-1 font-mono text-slate-400">{link.id}</span>
+            <span className="col-span-3 font-mono text-cyan-400">{link.from}</span>
+            <span className="col-span-3 font-mono text-cyan-400">→ {link.to}</span>
+            <select
+              value={link.type}
+              onChange={(e) => updateLink(link.id, { type: e.target.value })}
+              className="col-span-4 px-2 py-1 bg-slate-900 rounded"
+              style={{ color: LINK_TYPES[link.type]?.color }}
+            >
+              {Object.entries(LINK_TYPES).map(([key, info]) => <option key={key} value={key}>{info.name}</option>)}
+            </select>
+            <button
+              onClick={() => onChange(links.filter(l => l.id !== link.id))}
+              title="Delete link"
+              className="col-span-1 flex justify-end text-slate-400 hover:text-red-400"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-2 items-center text-sm">
+        <select
+          value={draft.from}
+          onChange={(e) => setDraft({ ...draft, from: e.target.value })}
+          className="px-2 py-2 bg-slate-900 rounded-lg"
+        >
+          <option value="">From…</option>
+          {devices.map(d => <option key={d.id} value={d.id}>{d.id}</option>)}
+        </select>
+        <select
+          value={draft.to}
+          onChange={(e) => setDraft({ ...draft, to: e.target.value })}
+          className="px-2 py-2 bg-slate-900 rounded-lg"
+        >
+          <option value="">To…</option>
+          {devices.map(d => <option key={d.id} value={d.id}>{d.id}</option>)}
+        </select>
+        <select
+          value={draft.type}
+          onChange={(e) => setDraft({ ...draft, type: e.target.value })}
+          className="px-2 py-2 bg-slate-900 rounded-lg"
+        >
+          {Object.entries(LINK_TYPES).map(([key, info]) => <option key={key} value={key}>{info.name}</option>)}
+        </select>
+        <button onClick={addLink} className="px-4 py-2 bg-cyan-600 hover:bg-cyan-700 rounded-lg flex items-center gap-2">
+          <Plus className="w-4 h-4" />
+          Add Link
+        </button>
+      </div>
+      {errors.length > 0 && (
+        <ul className="text-sm text-red-300 space-y-1">
+          {errors.map(error => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TopologyEditor;
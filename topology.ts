@@ -0,0 +1,44 @@
+// Site wiring: typed links between devices and the link state shown during playback.
+
+import { LINK_TYPES } from './roadside-data';
+
+// Scenario events that take a link down or bring it back; value is the link ID
+export const LINK_EVENTS = { down: 'LINK_DOWN', up: 'LINK_UP' };
+
+export const validateLink = (link, devices, links) => {
+  const errors = [];
+  const from = devices.find(d => d.id === link.from);
+  const to = devices.find(d => d.id === link.to);
+
+  if (!LINK_TYPES[link.type]) errors.push(`Unknown link type "${link.type}"`);
+  if (!from) errors.push(`Device "${link.from}" is not in the inventory`);
+  if (!to) errors.push(`Device "${link.to}" is not in the inventory`);
+  if (link.from === link.to) errors.push('A link needs two different devices');
+  if (links.some(l => l.id !== link.id && l.type === link.type &&
+      ((l.from === link.from && l.to === link.to) || (l.from === link.to && l.to === link.from)))) {
+    errors.push(`${link.from} and ${link.to} are already linked by ${link.type}`);
+  }
+  if (link.type === 'serial' && from && to && from.type !== 'MOXA' && to.type !== 'MOXA') {
+    errors.push('Serial links must terminate on a MOXA gateway');
+  }
+  if (link.type === 'power' && from && from.type !== 'Shelter') {
+    errors.push('Power links must come from a Shelter');
+  }
+  return errors;
+};
+
+export const nextLinkId = (links) => {
+  let n = links.length;
+  let id;
+  do { id = `L-${String(++n).padStart(2, '0')}`; } while (links.some(l => l.id === id));
+  return id;
+};
+
+// A link is down when forced down by an event or when either end is in alarm,
+// and degraded when either end is degraded
+export const linkStatus = (link, statuses, downLinks) => {
+  const ends = [statuses.get(link.from), statuses.get(link.to)];
+  if (downLinks.has(link.id) || ends.includes('alarm')) return 'down';
+  if (ends.includes('degraded')) return 'degraded';
+  return 'up';
+};
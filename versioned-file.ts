@@ -0,0 +1,19 @@
+// Exported files are JSON of the shape { format, version, <key>: [...] }. A
+// reader accepts its own format at its version or older and throws otherwise,
+// with `label` naming the kind of file in the message.
+
+export const parseVersionedFile = (text, format, version, key, label) => {
+  let data;
+  try {
+    data = JSON.parse(text);
+  } catch (err) {
+    throw new Error(`Not valid JSON: ${err.message}`);
+  }
+  if (data?.format !== format || !Array.isArray(data[key])) {
+    throw new Error(`Not a ${label}`);
+  }
+  if (typeof data.version !== 'number' || data.version > version) {
+    throw new Error(`Unsupported ${label} version ${data.version}`);
+  }
+  return data;
+};
@@ -0,0 +1,210 @@
+// Workspace persistence: sites, inventory, scenarios, rules and test cases,
+// plus the history of simulation and test runs. Storage goes through an
+// adapter so the backing store can change without touching callers:
+//   { get(key) => Promise<string | null>, set(key, value) => Promise<void>, remove(key) => Promise<void> }
+
+import { generateSeedData } from './roadside-data';
+import { defaultConfig } from './device-inventory';
+import { DEFAULT_SITE, siteOf } from './site-hierarchy';
+
+export const WORKSPACE_SCHEMA_VERSION = 6;
+// Runs have their own schema: they only change when the run record does
+export const RUN_SCHEMA_VERSION = 5;
+
+// Oldest runs are dropped beyond this, to stay inside browser storage quotas
+const MAX_STORED_RUNS = 50;
+
+const KEYS = {
+  workspace: 'rtp.workspace',
+  runs: 'rtp.runs',
+  run: (id) => `rtp.run.${id}`,
+  // Golden baseline run per scenario: { [scenarioId]: runId }
+  baselines: 'rtp.baselines',
+  // Inventory saved by the first inventory editor, before the workspace existed
+  legacySite: 'rtp-site'
+};
+
+export const createLocalStorageAdapter = (storage = globalThis.localStorage) => ({
+  get: async (key) => storage.getItem(key),
+  set: async (key, value) => storage.setItem(key, value),
+  remove: async (key) => storage.removeItem(key)
+});
+
+export const createMemoryAdapter = (initial = {}) => {
+  const items = new Map(Object.entries(initial));
+  return {
+    get: async (key) => (items.has(key) ? items.get(key) : null),
+    set: async (key, value) => { items.set(key, value); },
+    remove: async (key) => { items.delete(key); }
+  };
+};
+
+// localStorage when the page may use it (sandboxed frames throw on access), memory otherwise
+export const createBrowserAdapter = () => {
+  try {
+    const storage = globalThis.localStorage;
+    storage.setItem('rtp.probe', '1');
+    storage.removeItem('rtp.probe');
+    return createLocalStorageAdapter(storage);
+  } catch {
+    return createMemoryAdapter();
+  }
+};
+
+// Config fields added after a device was saved start at their defaults
+const withConfigDefaults = (devices) => devices.map(d => ({ ...d, config: { ...defaultConfig(d.type), ...d.config } }));
+
+// Everything saved before sites existed was one site
+const withSite = (devices) => devices.map(d => ({ ...d, site: siteOf(d), parent: d.parent || null }));
+
+// Seed SC-002 events that the TRX and VDC emulators now raise on their own
+const EMULATED_SEED_EVENTS = [
+  { time: 20, device: 'VDC-1', type: 'BUFFER_OVERFLOW' },
+  { time: 90, device: 'TRX-01', type: 'RATE_LIMITING' },
+  { time: 120, device: 'VDC-1', type: 'RECOVERY' }
+];
+
+const withoutEmulatedSeedEvents = (scenarios) => scenarios.map(scenario => (scenario.id !== 'SC-002' ? scenario : {
+  ...scenario,
+  events: scenario.events.filter(e => !EMULATED_SEED_EVENTS.some(s => s.time === e.time && s.device === e.device && s.type === e.type))
+}));
+
+// Each migration upgrades data saved at schema version N to N + 1
+const WORKSPACE_MIGRATIONS = {
+  // v1 held only the inventory; scenarios, rules and tests start from the seed set
+  1: (data) => {
+    const seed = generateSeedData();
+    return {
+      ...data,
+      schemaVersion: 2,
+      scenarios: seed.scenarios,
+      rules: seed.rules,
+      testCases: seed.testCases
+    };
+  },
+  // v3 added emulator thresholds to the device config
+  2: (data) => ({ ...data, schemaVersion: 3, devices: withConfigDefaults(data.devices) }),
+  // v4 added the sync tolerance to every device type
+  3: (data) => ({ ...data, schemaVersion: 4, devices: withConfigDefaults(data.devices) }),
+  // v5 grouped devices into sites
+  4: (data) => ({ ...data, schemaVersion: 5, sites: [DEFAULT_SITE], devices: withSite(data.devices) }),
+  // v6 left overflow, rate limiting and recovery in SC-002 to the emulators
+  5: (data) => ({ ...data, schemaVersion: 6, scenarios: withoutEmulatedSeedEvents(data.scenarios) })
+};
+
+// Runs were first saved at schema 2; numbers up to 5 were shared with the workspace
+const RUN_MIGRATIONS = {
+  2: (data) => ({ ...data, schemaVersion: 3 }),
+  3: (data) => ({ ...data, schemaVersion: 4 }),
+  4: (data) => ({ ...data, schemaVersion: 5, sites: [DEFAULT_SITE], devices: withSite(data.devices) })
+};
+
+const migrate = (data, migrations, version, what) => {
+  let current = data;
+  if (current.schemaVersion > version) {
+    throw new Error(`${what} was saved by a newer version (schema ${current.schemaVersion})`);
+  }
+  while (current.schemaVersion < version) {
+    const step = migrations[current.schemaVersion];
+    if (!step) throw new Error(`No ${what.toLowerCase()} migration from schema ${current.schemaVersion}`);
+    current = step(current);
+  }
+  return current;
+};
+
+export const migrateWorkspace = (data) => migrate(data, WORKSPACE_MIGRATIONS, WORKSPACE_SCHEMA_VERSION, 'Workspace');
+
+export const migrateRun = (data) => migrate(data, RUN_MIGRATIONS, RUN_SCHEMA_VERSION, 'Run');
+
+const parseJson = (text) => {
+  try {
+    return text ? JSON.parse(text) : null;
+  } catch {
+    return null;
+  }
+};
+
+const summarizeRun = (run) => ({
+  id: run.id,
+  kind: run.kind,
+  startedAt: run.startedAt,
+  scenario: run.scenario,
+  eventCount: run.logs.length + run.testResults.reduce((sum, r) => sum + (r.logs?.length || 0), 0),
+  passed: run.testResults.filter(r => r.status === 'passed').length,
+  failed: run.testResults.filter(r => r.status !== 'passed').length
+});
+
+export const createWorkspaceStore = (adapter) => {
+  const loadWorkspace = async () => {
+    const stored = parseJson(await adapter.get(KEYS.workspace));
+    if (stored) return migrateWorkspace(stored);
+
+    const legacy = parseJson(await adapter.get(KEYS.legacySite));
+    if (legacy && Array.isArray(legacy.devices)) {
+      const workspace = migrateWorkspace({
+        schemaVersion: 1,
+        devices: legacy.devices.map(d => ({ ...d, status: 'normal' })),
+        links: legacy.links || []
+      });
+      await saveWorkspace(workspace);
+      await adapter.remove(KEYS.legacySite);
+      return workspace;
+    }
+    return null;
+  };
+
+  const saveWorkspace = async ({ sites, devices, links, scenarios, rules, testCases }) => {
+    await adapter.set(KEYS.workspace, JSON.stringify({
+      schemaVersion: WORKSPACE_SCHEMA_VERSION,
+      sites,
+      devices,
+      links,
+      scenarios,
+      rules,
+      testCases
+    }));
+  };
+
+  // Summaries, newest first
+  const listRuns = async () => parseJson(await adapter.get(KEYS.runs)) || [];
+
+  const loadRun = async (id) => {
+    const run = parseJson(await adapter.get(KEYS.run(id)));
+    return run ? migrateRun(run) : null;
+  };
+
+  const listBaselines = async () => parseJson(await adapter.get(KEYS.baselines)) || {};
+
+  // A null runId clears the scenario's baseline
+  const setBaseline = async (scenarioId, runId) => {
+    const baselines = await listBaselines();
+    if (runId) baselines[scenarioId] = runId;
+    else delete baselines[scenarioId];
+    await adapter.set(KEYS.baselines, JSON.stringify(baselines));
+    return baselines;
+  };
+
+  // Golden baselines are never evicted, so the limit may be exceeded by them
+  const saveRun = async (run) => {
+    await adapter.set(KEYS.run(run.id), JSON.stringify(run));
+    const golden = new Set(Object.values(await listBaselines()));
+    const runs = [summarizeRun(run), ...(await listRuns()).filter(r => r.id !== run.id)];
+    const evicted = runs.filter(r => !golden.has(r.id)).slice(MAX_STORED_RUNS);
+    await Promise.all(evicted.map(r => adapter.remove(KEYS.run(r.id))));
+    const kept = runs.filter(r => !evicted.includes(r));
+    await adapter.set(KEYS.runs, JSON.stringify(kept));
+    return kept;
+  };
+
+  const deleteRun = async (id) => {
+    await adapter.remove(KEYS.run(id));
+    const runs = (await listRuns()).filter(r => r.id !== id);
+    await adapter.set(KEYS.runs, JSON.stringify(runs));
+    const baselines = await listBaselines();
+    const scenarioId = Object.keys(baselines).find(key => baselines[key] === id);
+    if (scenarioId) await setBaseline(scenarioId, null);
+    return runs;
+  };
+
+  return { loadWorkspace, saveWorkspace, listRuns, loadRun, saveRun, deleteRun, listBaselines, setBaseline };
+};